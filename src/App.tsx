@@ -1,4 +1,5 @@
 import { Outlet } from 'react-router-dom';
+import { Toaster } from '@/components/ui/sonner';
 
 function App() {
   return (
@@ -9,6 +10,7 @@ function App() {
       <main>
         <Outlet />
       </main>
+      <Toaster />
       <footer>
         {/*Application made by Aditya Mendiratta & Matthew Fabricio Cruz for TSA Software Development 2025*/}
       </footer>
@@ -1,4 +1,4 @@
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useRef, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
@@ -6,94 +6,110 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { BarChart, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Bar } from 'recharts';
-import { Droplet, Leaf, LayoutDashboard, Info, AlertTriangle, Bug, Trash2, Edit3, RotateCw, Download, Upload, Settings } from 'lucide-react';
+import { Droplet, Leaf, LayoutDashboard, Info, AlertTriangle, Bug, Trash2, Edit3, RotateCw, Download, Upload, Settings, Undo2, Redo2, Ruler, SlidersHorizontal, SprayCan } from 'lucide-react';
+import { toast } from 'sonner';
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-
-interface WaterUsage {
-  amount: number;
-  date: string;
-  efficiency?: number;  // Add efficiency score for each watering
-}
-
-// Update Farm interface to include more data
-interface Farm {
-  id: number;
-  name: string;
-  size: string;
-  crop: string;
-  waterHistory: WaterUsage[];
-  fertilizerHistory: any[];
-  harvestHistory: any[];
-  soilType?: string;
-  slopeRatio?: number;
-  pesticides?: {
-    type: string;
-    amount: number;
-    date: string;
-    toxicity: number;
-  }[];
-  rotationHistory?: {
-    crop: string;
-    startDate: string;
-    endDate: string;
-  }[];
-  organicMatter?: number;
-  soilPH?: number;
-  biodiversityScore?: number;
-}
-
-interface WeatherData {
-  date: string;
-  temp: number;
-  weather: string;
-  icon: string;
-  precipitation?: number;  // mm of rain
-}
-
-interface Task {
-  id: number;
-  title: string;
-  dueDate: string;
-  priority: string;
-  completed: boolean;
-}
-
-interface Issue {
-  id: number;
-  type: string;
-  description: string;
-  severity: string;
-  status: string;
-  dateReported: Date;
-}
+import type { FarmData } from "@/lib/farmRepository";
+import {
+  useFarmState,
+  farmActions,
+  loadFarmState,
+  selectFarms,
+  selectTasks,
+  selectIssues,
+  selectCropPlanEvents,
+  selectCrops,
+  selectCropFilter,
+  selectFarmData,
+  selectFilteredFarms,
+  selectUniqueCrops,
+  selectAllHistory,
+  selectCanUndo,
+  selectCanRedo,
+  selectWorkspaceId,
+  HistoryEntry,
+  HistoryKey,
+} from "@/hooks/useFarmState";
+import { useUndoShortcuts } from "@/hooks/useUndoShortcuts";
+import { useUnits } from "@/hooks/useUnits";
+import type { ImportSummary } from "@/lib/importMerge";
+import { ImportWizard } from "@/components/ImportWizard";
+import { AuditLogView } from "@/components/AuditLogView";
+import { WorkspaceSwitcher } from "@/components/WorkspaceSwitcher";
+import { FarmLocationInput } from "@/components/FarmLocationInput";
+import { CropSettingsCard } from "@/components/CropSettingsCard";
+import { WeatherAlerts } from "@/components/WeatherAlerts";
+import { GddProgress } from "@/components/GddProgress";
+import { IrrigationBalanceCard } from "@/components/IrrigationBalanceCard";
+import { IrrigationScheduleCard } from "@/components/IrrigationScheduleCard";
+import { plantingDate } from "@/lib/gdd";
+import { waterBalance, waterBalanceScore, type WaterBalance } from "@/lib/waterBalance";
+import { irrigationSchedule, SOIL_SPINUP_DAYS } from "@/lib/irrigationSchedule";
+import { SOIL_TYPES } from "@/lib/soil";
+import {
+  METRIC_KEYS,
+  NO_SCORE,
+  hasScore,
+  recordRefs,
+  scoreFrom,
+  type Contribution,
+  type FarmScore,
+  type MetricKey,
+  type MetricScore,
+  type ScoringSettings,
+} from "@/lib/scoring";
+import { useScoringSettings } from "@/hooks/useScoringSettings";
+import { ScoringSettingsDialog } from "@/components/ScoringSettingsDialog";
+import { ScoreBreakdownDialog } from "@/components/ScoreBreakdownDialog";
+import { FarmScorecards } from "@/components/FarmScorecards";
+import { ScoreTrendCard } from "@/components/ScoreTrendCard";
+import { farmAsOf } from "@/lib/scoreSnapshots";
+import { DEFAULT_TOXICITY, TOXICITY_CLASSES, applicationYears, pesticideLoad } from "@/lib/pesticides";
+import { UnitSettingsDialog } from "@/components/UnitSettingsDialog";
+import { addDays, formatLocalDate, locationKey, weatherProvider } from "@/lib/weather";
+import { backfillWeather } from "@/lib/weatherArchive";
+import { cropSettings, normalizeCropName, type CropSettings } from "@/lib/crops";
+import { listWorkspaces } from "@/lib/workspaces";
+import { createId } from "@/lib/ids";
+import { CURRENT_SCHEMA_VERSION, migrateData, VersionedData } from "@/lib/schema";
+import { validateWith, exportDataSchema, cropPlanEventsSchema, ValidationIssue } from "@/lib/validation";
+import type { Farm, WaterUsage, FertilizerUsage, HarvestRecord, RotationEntry, PesticideApplication, WeatherData, SustainabilityMetrics, ExportData } from "@/types/farm";
 
 interface ConfirmDelete {
-  id: number;
+  id: string;
   type: string;
-  date?: string;
-  eventId?: number; // Add this for crop plan events
+  recordId?: string; // History record within the farm given by id
 }
 
-interface CropPlanEvent {
-  id: number;
-  title: string;
-  start: Date;
-  end: Date;
-  farmId: number;
-  type: 'planting' | 'fertilizing' | 'harvesting' | 'other';
-  notes?: string;
-}
+const RECORD_HISTORY: Record<string, HistoryKey> = {
+  waterUsage: 'waterHistory',
+  fertilizer: 'fertilizerHistory',
+  harvest: 'harvestHistory',
+  rotation: 'rotationHistory',
+  pesticide: 'pesticides',
+};
 
-// Update the SustainabilityMetrics interface to only include metrics we have data for
-interface SustainabilityMetrics {
-  overallScore: number;
-  waterEfficiency: number;
-  organicScore: number;
-  harvestEfficiency: number;
-  soilQualityScore: number;
-  rotationScore: number;
-}
+const DELETE_LABELS: Record<string, string> = {
+  farm: 'Farm',
+  waterUsage: 'Water usage record',
+  fertilizer: 'Fertilizer record',
+  harvest: 'Harvest record',
+  rotation: 'Crop rotation',
+  pesticide: 'Pesticide record',
+  task: 'Task',
+  cropEvent: 'Crop plan event',
+};
+
+const undoAction = { label: 'Undo', onClick: () => farmActions.undo() };
+
+const HISTORY_STYLES: Record<HistoryEntry['type'], { icon: React.ReactNode; color: string }> = {
+  'Water Usage': { icon: <Droplet className="h-4 w-4 text-blue-500" />, color: 'blue' },
+  'Fertilizer Usage': { icon: <Leaf className="h-4 w-4 text-green-500" />, color: 'green' },
+  'Harvest': { icon: <LayoutDashboard className="h-4 w-4 text-purple-500" />, color: 'purple' },
+  'Crop Rotation': { icon: <RotateCw className="h-4 w-4 text-orange-500" />, color: 'orange' },
+  'Pesticide Application': { icon: <SprayCan className="h-4 w-4 text-red-500" />, color: 'red' },
+};
 
 interface WalkthroughStep {
   target: string;
@@ -318,114 +334,130 @@ const walkthroughStyles = `
   }
 `;
 
-const calculateWaterEfficiency = (
-  waterHistory: WaterUsage[],
-  weatherData: WeatherData[],
-): number => {
-  if (!waterHistory || waterHistory.length === 0) return 0;
-  
-  const waterUsage = waterHistory[waterHistory.length - 1]; // Get most recent water usage
-  const waterDate = new Date(waterUsage.date).setHours(0, 0, 0, 0);
-  
-  const dayWeather = weatherData.find(w => 
-    new Date(w.date).setHours(0, 0, 0, 0) === waterDate
-  );
-  const previousDayWeather = weatherData.find(w => 
-    new Date(w.date).setHours(0, 0, 0, 0) === waterDate - 86400000
-  );
-
-  let efficiencyScore = 100;
-
-  if (dayWeather?.weather.toLowerCase().includes('rain')) {
-    efficiencyScore *= 0.5; // 50% penalty for watering during rain
-  }
-
-  if (previousDayWeather?.weather.toLowerCase().includes('rain')) {
-    efficiencyScore *= 0.7; // 30% penalty for watering after rain
-  }
-
-  if (dayWeather?.temp) {
-    if (dayWeather.temp > 30) { // Hot day
-      efficiencyScore *= 0.9; // 10% penalty for evaporation
-    } else if (dayWeather.temp < 10) { // Cold day
-      efficiencyScore *= 0.95; // 5% penalty for slower absorption
-    }
-  }
-
-  return efficiencyScore;
+// Millimetres of rain at which a day counts as fully wet for scoring
+const SATURATING_RAIN_MM = 10;
+
+// Scales from 0 on a dry day to 1 at or above SATURATING_RAIN_MM
+const rainIntensity = (weather?: WeatherData) =>
+  Math.min(1, (weather?.precipitation ?? 0) / SATURATING_RAIN_MM);
+
+// Scores how closely the water applied matched the crop's demand less effective rain
+const calculateWaterEfficiency = (farm: Farm, balance: WaterBalance | null, scoring: ScoringSettings): MetricScore => {
+  if (!balance) return NO_SCORE;
+  const score = waterBalanceScore(balance, scoring.irrigationTolerance);
+  const applied = balance.demand > 0
+    ? `${Math.round((balance.applied / balance.demand) * 100)}% of the crop's need`
+    : 'water while rain covered the crop\'s need';
+  // The first watering only opens the period
+  const waterings = farm.waterHistory.filter(usage => {
+    const date = usage.date.slice(0, 10);
+    return date > balance.from && date <= balance.to;
+  });
+  return scoreFrom([
+    { label: 'Irrigation matching crop demand', points: 100, records: [] },
+    {
+      label: `${balance.status === 'under' ? 'Under' : 'Over'}-irrigation: applied ${applied}`,
+      points: score - 100,
+      records: recordRefs('waterHistory', waterings),
+    },
+  ]);
 };
 
 // Add new calculation functions
-const calculateSoilQualityScore = (farm: Farm): number => {
-  let score = 70; // Base score
-
-  // Organic matter content
-  if (farm.organicMatter) {
-    score += farm.organicMatter * 5; // +5 points per % of organic matter
-  }
-
-  // pH balance (ideal range 6.0-7.0)
-  if (farm.soilPH) {
-    const idealPH = 6.5;
-    const phDifference = Math.abs(farm.soilPH - idealPH);
-    score -= phDifference * 5; // -5 points per pH unit difference from ideal
-  }
+const calculateSoilQualityScore = (farm: Farm, scoring: ScoringSettings): MetricScore => {
+  const rotations = farm.rotationHistory || [];
+  const phDifference = farm.soilPH ? Math.abs(farm.soilPH - scoring.idealPH) : 0;
+
+  return scoreFrom([
+    { label: 'Base score', points: scoring.baseScore, records: [] },
+    // +5 points per % of organic matter
+    { label: `Organic matter of ${farm.organicMatter}%`, points: (farm.organicMatter || 0) * 5, records: [] },
+    {
+      label: `Soil pH ${farm.soilPH}, ${Math.round(phDifference * 10) / 10} from the ideal ${scoring.idealPH}`,
+      points: -phDifference * scoring.phPenalty,
+      records: [],
+    },
+    // Up to +15 for rotation
+    {
+      label: `${rotations.length} crop ${rotations.length === 1 ? 'rotation' : 'rotations'}`,
+      points: Math.min(15, rotations.length * 5),
+      records: recordRefs('rotationHistory', rotations),
+    },
+  ]);
+};
 
-  // Crop rotation
-  if (farm.rotationHistory && farm.rotationHistory.length) {
-    score += Math.min(15, farm.rotationHistory.length * 5); // Up to +15 for rotation
-  }
+const isOrganicFertilizer = (fertilizer: FertilizerUsage) =>
+  ['organic', 'manure', 'compost'].some(word => fertilizer.type?.toLowerCase().includes(word));
 
-  return Math.max(0, Math.min(100, score));
-};
+const calculateOrganicScore = (farm: Farm, scoring: ScoringSettings): MetricScore => {
+  const contributions: Contribution[] = [{ label: 'Base score', points: scoring.baseScore, records: [] }];
 
-const calculateOrganicScore = (farm: Farm): number => {
-  let score = 70; // Base score
-  
   // Analyze fertilizer types and amounts
+  const organicFertilizers = farm.fertilizerHistory.filter(isOrganicFertilizer);
+  const chemicalFertilizers = farm.fertilizerHistory.filter(f => !isOrganicFertilizer(f));
   const totalFertilizerAmount = farm.fertilizerHistory.reduce((sum, f) => sum + f.amount, 0);
-  const organicFertilizers = farm.fertilizerHistory.filter(f => 
-    f.type?.toLowerCase().includes('organic') || 
-    f.type?.toLowerCase().includes('manure') ||
-    f.type?.toLowerCase().includes('compost')
-  );
-  
   const organicFertilizerAmount = organicFertilizers.reduce((sum, f) => sum + f.amount, 0);
-  
+
   if (totalFertilizerAmount > 0) {
-    // Calculate percentage of organic fertilizer use
     const organicPercentage = organicFertilizerAmount / totalFertilizerAmount;
-    
-    // Adjust score based on organic percentage
-    score += (organicPercentage * 20); // Up to +20 points for 100% organic fertilizer use
-    
-    // Penalty for heavy chemical fertilizer use
+    // Up to +20 points for 100% organic fertilizer use
+    contributions.push({
+      label: `Organic fertilizer share of ${Math.round(organicPercentage * 100)}%`,
+      points: organicPercentage * 20,
+      records: recordRefs('fertilizerHistory', organicFertilizers),
+    });
+
+    // 10 points per 1000 lb (about 454 kg) of chemical fertilizer, at most 30
     const chemicalFertilizerAmount = totalFertilizerAmount - organicFertilizerAmount;
-    if (chemicalFertilizerAmount > 0) {
-      // Penalty increases with amount of chemical fertilizer
-      const chemicalPenalty = Math.min(30, (chemicalFertilizerAmount / 1000) * 10);
-      score -= chemicalPenalty;
-    }
+    contributions.push({
+      label: 'Chemical fertilizer volume',
+      points: -Math.min(30, (chemicalFertilizerAmount / 454) * 10),
+      records: recordRefs('fertilizerHistory', chemicalFertilizers),
+    });
   }
-  
+
   // Consider crop rotation if available
-  if (farm.rotationHistory && farm.rotationHistory.length) {
-    score += Math.min(10, farm.rotationHistory.length * 2);
-  }
+  const rotations = farm.rotationHistory || [];
+  contributions.push({
+    label: 'Crop rotation',
+    points: Math.min(10, rotations.length * 2),
+    records: recordRefs('rotationHistory', rotations),
+  });
 
   // Add bonus for consistent organic practices
-  const consecutiveOrganicFertilizers = organicFertilizers.length;
-  if (consecutiveOrganicFertilizers >= 3) {
-    score += 10; // Bonus for consistent organic practices
+  if (organicFertilizers.length >= 3) {
+    contributions.push({
+      label: `Consistent organic practices (${organicFertilizers.length} applications)`,
+      points: 10,
+      records: recordRefs('fertilizerHistory', organicFertilizers),
+    });
   }
 
-  return Math.min(100, Math.max(0, score));
+  return scoreFrom(contributions);
 };
 
-const calculateHarvestEfficiency = (farm: Farm, weatherData: WeatherData[]): number => {
-  if (!farm.harvestHistory.length) return 0;
+// Farm size in hectares, or null when it has not been entered
+const farmHectares = (farm: Farm) => {
+  const size = parseFloat(farm.size);
+  return size > 0 ? size : null;
+};
+
+// Average harvest weight per hectare, in kg/ha
+const averageYieldPerHectare = (farm: Farm) => {
+  const hectares = farmHectares(farm);
+  if (!hectares || !farm.harvestHistory.length) return null;
+  return farm.harvestHistory.reduce((sum, harvest) => sum + harvest.weight, 0) / farm.harvestHistory.length / hectares;
+};
+
+const calculateHarvestEfficiency = (
+  farm: Farm,
+  weatherData: WeatherData[],
+  peerYield?: number  // Average kg/ha of farms growing the same crop
+): MetricScore => {
+  if (!farm.harvestHistory.length) return NO_SCORE;
 
-  let score = 100;
+  const harvests = recordRefs('harvestHistory', farm.harvestHistory);
+  const contributions: Contribution[] = [{ label: 'Harvest efficiency', points: 100, records: [] }];
   
   // Remove unused harvestsPerYear calculation or use it in scoring
   // Optionally, you could use it like this:
@@ -433,49 +465,93 @@ const calculateHarvestEfficiency = (farm: Farm, weatherData: WeatherData[]): num
   //   (new Set(farm.harvestHistory.map(h => new Date(h.date).getFullYear())).size || 1);
   // score += harvestsPerYear * 5; // Bonus for multiple harvests per year
   
-  // Analyze yield consistency
-  const yields = farm.harvestHistory.map(h => h.amount);
+  // Analyze yield consistency, per hectare so farms of different sizes compare fairly
+  const hectares = farmHectares(farm) ?? 1;
+  const yields = farm.harvestHistory.map(h => h.weight / hectares);
   const avgYield = yields.reduce((a, b) => a + b, 0) / yields.length;
   const yieldVariation = Math.sqrt(
     yields.reduce((acc, y) => acc + Math.pow(y - avgYield, 2), 0) / yields.length
   ) / avgYield;
 
   // Penalize for high yield variation
-  score -= yieldVariation * 20;
+  contributions.push({
+    label: `Yield variation of ${Math.round(yieldVariation * 100)}%`,
+    points: -yieldVariation * 20,
+    records: harvests,
+  });
 
-  // Consider weather impact
-  farm.harvestHistory.forEach(harvest => {
-    const harvestDate = new Date(harvest.date);
-    const weatherOnDay = weatherData.find(w => 
-      new Date(w.date).toDateString() === harvestDate.toDateString()
-    );
-    
-    if (weatherOnDay?.weather.toLowerCase().includes('rain')) {
-      score -= 5; // Penalty for harvesting in rain
-    }
+  // Compare with farms growing the same crop: up to -20 below and +10 above their average
+  const farmYield = averageYieldPerHectare(farm);
+  if (farmYield !== null && peerYield) {
+    const difference = farmYield / peerYield - 1;
+    contributions.push({
+      label: `Yield ${Math.round(Math.abs(difference) * 100)}% ${difference < 0 ? 'below' : 'above'} the average for ${farm.crop}`,
+      points: Math.max(-20, Math.min(10, difference * 20)),
+      records: harvests,
+    });
+  }
+
+  // Consider weather impact: up to 5 points for each harvest in rain
+  const rainyHarvests = farm.harvestHistory
+    .map(harvest => {
+      const harvestDate = new Date(harvest.date);
+      const weatherOnDay = weatherData.find(w => 
+        new Date(w.date).toDateString() === harvestDate.toDateString()
+      );
+      return { harvest, intensity: rainIntensity(weatherOnDay) };
+    })
+    .filter(({ intensity }) => intensity > 0);
+  contributions.push({
+    label: 'Harvesting in rain',
+    points: -5 * rainyHarvests.reduce((sum, { intensity }) => sum + intensity, 0),
+    records: recordRefs('harvestHistory', rainyHarvests.map(({ harvest }) => harvest)),
   });
 
-  return Math.min(100, Math.max(0, score));
+  return scoreFrom(contributions);
 };
 
 interface MetricsAccumulator {
   [key: string]: number;
 }
 
+// Scores every farm on each metric, comparing yields with farms growing the same crop
+const calculateFarmScores = (
+  farms: Farm[],
+  weatherFor: (farm: Farm) => WeatherData[],
+  waterBalanceFor: (farm: Farm) => WaterBalance | null,
+  scoring: ScoringSettings
+): FarmScore[] => {
+  const yieldsByCrop = new Map<string, number[]>();
+  farms.forEach(farm => {
+    const farmYield = averageYieldPerHectare(farm);
+    if (farmYield === null) return;
+    const crop = normalizeCropName(farm.crop);
+    yieldsByCrop.set(crop, [...(yieldsByCrop.get(crop) || []), farmYield]);
+  });
+  const peerYield = (farm: Farm) => {
+    const yields = yieldsByCrop.get(normalizeCropName(farm.crop));
+    return yields ? yields.reduce((a, b) => a + b, 0) / yields.length : undefined;
+  };
+
+  return farms.map(farm => ({
+    farmId: farm.id,
+    metrics: {
+      waterEfficiency: calculateWaterEfficiency(farm, waterBalanceFor(farm), scoring),
+      organicScore: calculateOrganicScore(farm, scoring),
+      harvestEfficiency: calculateHarvestEfficiency(farm, weatherFor(farm), peerYield(farm)),
+      soilQualityScore: calculateSoilQualityScore(farm, scoring),
+      rotationScore: calculateRotationScore(farm),
+      pesticideScore: calculatePesticideScore(farm, scoring),
+    },
+  }));
+};
+
 // Update the calculateSustainabilityMetrics function
 const calculateSustainabilityMetrics = (
-  farms: Farm[],
-  weatherData: WeatherData[]
+  farmScores: FarmScore[],
+  scoring: ScoringSettings
 ): SustainabilityMetrics | null => {
-  if (farms.length === 0 || weatherData.length === 0) return null;
-
-  const farmMetrics = farms.map(farm => ({
-    waterEfficiency: calculateWaterEfficiency(farm.waterHistory, weatherData),
-    organicScore: calculateOrganicScore(farm),
-    harvestEfficiency: calculateHarvestEfficiency(farm, weatherData),
-    soilQualityScore: calculateSoilQualityScore(farm),
-    rotationScore: calculateRotationScore(farm),
-  }));
+  if (farmScores.length === 0) return null;
 
   // Initialize accumulator with zeros
   const avgMetrics: MetricsAccumulator = {
@@ -483,7 +559,8 @@ const calculateSustainabilityMetrics = (
     organicScore: 0,
     harvestEfficiency: 0,
     soilQualityScore: 0,
-    rotationScore: 0
+    rotationScore: 0,
+    pesticideScore: 0
   };
   
   // Track how many farms have each metric
@@ -492,29 +569,22 @@ const calculateSustainabilityMetrics = (
     organicScore: 0,
     harvestEfficiency: 0,
     soilQualityScore: 0,
-    rotationScore: 0
+    rotationScore: 0,
+    pesticideScore: 0
   };
 
-  // Sum up all valid metrics (non-zero values)
-  farmMetrics.forEach(metrics => {
-    Object.keys(metrics).forEach(key => {
-      const typedKey = key as keyof typeof metrics;
-      const value = metrics[typedKey];
-      if (value > 0) {
-        avgMetrics[key] = (avgMetrics[key] || 0) + value;
+  // Sum up the metrics each farm has data for, including scores of 0
+  farmScores.forEach(({ metrics }) => {
+    METRIC_KEYS.forEach(key => {
+      if (hasScore(metrics[key])) {
+        avgMetrics[key] = (avgMetrics[key] || 0) + metrics[key].score;
         metricCounts[key]++;
       }
     });
   });
 
   // Calculate averages only for metrics that have values
-  const weights: MetricsAccumulator = {
-    waterEfficiency: 0.25,
-    organicScore: 0.20,
-    harvestEfficiency: 0.20,
-    soilQualityScore: 0.20,
-    rotationScore: 0.15,
-  };
+  const weights: MetricsAccumulator = scoring.weights;
 
   let totalWeight = 0;
   let overallScore = 0;
@@ -525,75 +595,120 @@ const calculateSustainabilityMetrics = (
       avgMetrics[key] /= metricCounts[key];
       overallScore += avgMetrics[key] * weights[key];
       totalWeight += weights[key];
-    } else {
-      // Set metrics with no data to null or zero, so they don't affect the score
-      avgMetrics[key] = 0;
     }
   });
 
-  // Adjust the overall score if we're not using all metrics
-  if (totalWeight > 0 && totalWeight < 1) {
-    overallScore = overallScore / totalWeight;
-  }
+  // Metrics without data are null, so they are not mistaken for a score of 0
+  const average = (key: MetricKey) => metricCounts[key] > 0 ? Math.round(avgMetrics[key]) : null;
 
   return {
-    overallScore: Math.round(overallScore),
-    waterEfficiency: Math.round(avgMetrics.waterEfficiency),
-    organicScore: Math.round(avgMetrics.organicScore),
-    harvestEfficiency: Math.round(avgMetrics.harvestEfficiency),
-    soilQualityScore: Math.round(avgMetrics.soilQualityScore),
-    rotationScore: Math.round(avgMetrics.rotationScore),
+    // Scaled to the weights of the metrics in use, which need not add up to 1
+    overallScore: totalWeight > 0 ? Math.round(overallScore / totalWeight) : null,
+    waterEfficiency: average('waterEfficiency'),
+    organicScore: average('organicScore'),
+    harvestEfficiency: average('harvestEfficiency'),
+    soilQualityScore: average('soilQualityScore'),
+    rotationScore: average('rotationScore'),
+    pesticideScore: average('pesticideScore'),
   };
 };
 
 // Add calculateRotationScore function
-const calculateRotationScore = (farm: Farm): number => {
-  if (!farm.rotationHistory?.length) return 0;
-  
-  let score = Math.min(100, farm.rotationHistory.length * 20); // 20 points per rotation, max 100
-  
+const calculateRotationScore = (farm: Farm): MetricScore => {
+  const rotations = farm.rotationHistory || [];
+  if (!rotations.length) return NO_SCORE;
+  const records = recordRefs('rotationHistory', rotations);
+
   // Check for variety in crops
-  const uniqueCrops = new Set(farm.rotationHistory.map(r => r.crop)).size;
-  score += Math.min(20, uniqueCrops * 5); // 5 points per unique crop, max 20 bonus
-  
-  return Math.min(100, score);
+  const uniqueCrops = new Set(rotations.map(r => r.crop)).size;
+
+  return scoreFrom([
+    // 20 points per rotation, max 100
+    { label: `${rotations.length} ${rotations.length === 1 ? 'rotation' : 'rotations'}`, points: Math.min(100, rotations.length * 20), records },
+    // 5 points per unique crop, max 20 bonus
+    { label: `${uniqueCrops} different ${uniqueCrops === 1 ? 'crop' : 'crops'}`, points: Math.min(20, uniqueCrops * 5), records },
+  ]);
+};
+
+// Scores the toxicity-weighted pesticide load per hectare and year against the configured limit
+const calculatePesticideScore = (farm: Farm, scoring: ScoringSettings): MetricScore => {
+  const applications = farm.pesticides || [];
+  const hectares = farmHectares(farm);
+  if (!applications.length || !hectares) return NO_SCORE;
+
+  const years = applicationYears(applications);
+  const byProduct = new Map<string, PesticideApplication[]>();
+  applications.forEach(application => {
+    byProduct.set(application.type, [...(byProduct.get(application.type) || []), application]);
+  });
+
+  return scoreFrom([
+    { label: 'No pesticide load', points: 100, records: [] },
+    ...Array.from(byProduct, ([product, records]) => ({
+      label: `${product}, ${records.length} ${records.length === 1 ? 'application' : 'applications'}`,
+      points: -(pesticideLoad(records) / hectares / years / scoring.pesticideLoadLimit) * 100,
+      records: recordRefs('pesticides', records),
+    })),
+  ]);
 };
 
 // Removed unused Navigation component
 
-const getWeatherInfo = (code: number) => {
-  switch (true) {
-    case code <= 3: return { desc: 'Clear', icon: '☀️' };
-    case code <= 48: return { desc: 'Cloudy', icon: '☁️' };
-    case code <= 67: return { desc: 'Rain', icon: '🌧️' };
-    case code <= 77: return { desc: 'Snow', icon: '❄️' };
-    default: return { desc: 'Unknown', icon: '❓' };
-  }
+// Farms closer than about a kilometre share one forecast
+const farmLocationKey = (farm: Farm) =>
+  farm.latitude === undefined || farm.longitude === undefined
+    ? null
+    : locationKey(farm.latitude, farm.longitude);
+
+// Dates the scores look weather up for, including the day before the first watering,
+// the days since the current crop was planted for its growing degree days and the
+// recent days the irrigation schedule's soil water balance starts from
+const archivedWeatherRange = (farm: Farm, plantedOn: string | null) => {
+  const today = formatLocalDate(new Date());
+  const dates = [...farm.waterHistory, ...farm.harvestHistory].map(record => record.date.slice(0, 10)).sort();
+  if (dates.length > 0) dates[0] = addDays(dates[0], -1);
+  dates.push(plantedOn ?? today, addDays(today, -SOIL_SPINUP_DAYS), today);
+  dates.sort();
+  return { from: dates[0], to: dates[dates.length - 1] };
 };
 
-interface ExportData {
-  version: string;
-  exportDate: string;
-  farms: Farm[];
-  tasks: Task[];
-  issues: Issue[];
-  cropPlanEvents: CropPlanEvent[];
-}
+const parseCoordinate = (value: string) => value.trim() === '' ? undefined : parseFloat(value);
 
 const DefaultComponent: React.FC = () => {
-  const [farms, setFarms] = useState<Farm[]>(() => {
-    const savedFarms = localStorage.getItem('farms');
-    return savedFarms ? JSON.parse(savedFarms) : [];
-  });
-
-  const [weatherData, setWeatherData] = useState<WeatherData[]>([]);
+  const farms = useFarmState(selectFarms);
+  const tasks = useFarmState(selectTasks);
+  const issues = useFarmState(selectIssues);
+  const cropPlanEvents = useFarmState(selectCropPlanEvents);
+  const crops = useFarmState(selectCrops);
+  const cropFilter = useFarmState(selectCropFilter);
+  const filteredFarms = useFarmState(selectFilteredFarms);
+  const farmData = useFarmState(selectFarmData);
+  const canUndo = useFarmState(selectCanUndo);
+  const canRedo = useFarmState(selectCanRedo);
+  const workspaceId = useFarmState(selectWorkspaceId);
+
+  useUndoShortcuts();
+  const units = useUnits();
+  const [isUnitSettingsOpen, setIsUnitSettingsOpen] = useState(false);
+  const scoring = useScoringSettings();
+  const [isScoringSettingsOpen, setIsScoringSettingsOpen] = useState(false);
+  const [breakdownMetric, setBreakdownMetric] = useState<MetricKey | null>(null);
+
+  const [weatherByLocation, setWeatherByLocation] = useState<Record<string, WeatherData[]>>({});
+  const [weatherFarmId, setWeatherFarmId] = useState('');
+  const requestedLocations = useRef(new Set<string>());
+  const [archiveByLocation, setArchiveByLocation] = useState<Record<string, WeatherData[]>>({});
+  const archivedRanges = useRef(new Map<string, string>());
   const [isAddingFarm, setIsAddingFarm] = useState(false);
   const [isEditingFarm, setIsEditingFarm] = useState(false);
   const [newFarm, setNewFarm] = useState({ 
     name: '', 
     size: '', 
     crop: '',
-    rotationHistory: [] as { crop: string; startDate: string; endDate: string }[]
+    latitude: '',
+    longitude: '',
+    soilType: '',
+    rotationHistory: [] as RotationEntry[]
   });
   const [editingFarm, setEditingFarm] = useState<Farm | null>(null);
   const [newWaterUsage, setNewWaterUsage] = useState({ farmId: '', amount: '', date: '' });
@@ -602,29 +717,25 @@ const DefaultComponent: React.FC = () => {
   const [editingWaterUsage, setEditingWaterUsage] = useState<WaterUsage | null>(null);
   const [isAddingFertilizer, setIsAddingFertilizer] = useState(false);
   const [isEditingFertilizer, setIsEditingFertilizer] = useState(false);
-  const [editingFertilizer, setEditingFertilizer] = useState<any | null>(null);
+  const [editingFertilizer, setEditingFertilizer] = useState<FertilizerUsage | null>(null);
   const [isAddingHarvest, setIsAddingHarvest] = useState(false);
   const [isEditingHarvest, setIsEditingHarvest] = useState(false);
-  const [editingHarvest, setEditingHarvest] = useState<any | null>(null);
+  const [editingHarvest, setEditingHarvest] = useState<HarvestRecord | null>(null);
   const [newFertilizer, setNewFertilizer] = useState({ farmId: '', type: '', amount: '', date: '' });
   const [newHarvest, setNewHarvest] = useState({ farmId: '', amount: '', date: '' });
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [issues, setIssues] = useState<Issue[]>([]);
   const [activeTab, setActiveTab] = useState("overview");
+  const [historyView, setHistoryView] = useState("records");
+  // Kept here so other views can open the history already searched, e.g. for one farm
+  const [searchTerm, setSearchTerm] = useState('');
+  const [searchBy, setSearchBy] = useState('all');
   const [confirmDelete, setConfirmDelete] = useState<ConfirmDelete | null>(null);
-  const [cropPlanEvents, setCropPlanEvents] = useState<CropPlanEvent[]>(() => {
-    const savedEvents = localStorage.getItem('cropPlanEvents');
-    return savedEvents ? JSON.parse(savedEvents, (key, value) => {
-      if (key === 'start' || key === 'end') return new Date(value);
-      return value;
-    }) : [];
-  });
 
   const [showWalkthrough, setShowWalkthrough] = useState(() => {
     return !localStorage.getItem('walkthroughCompleted');
   });
 
   const [isAddingRotation, setIsAddingRotation] = useState(false);
+  const [editingRotation, setEditingRotation] = useState<RotationEntry | null>(null);
   const [newRotation, setNewRotation] = useState({
     farmId: '',
     crop: '',
@@ -632,23 +743,29 @@ const DefaultComponent: React.FC = () => {
     endDate: ''
   });
 
-  const [cropFilter, setCropFilter] = useState<string>("all");
+  const [isAddingPesticide, setIsAddingPesticide] = useState(false);
+  const [editingPesticide, setEditingPesticide] = useState<PesticideApplication | null>(null);
+  const [newPesticide, setNewPesticide] = useState({
+    farmId: '',
+    type: '',
+    amount: '',
+    toxicity: String(DEFAULT_TOXICITY),
+    date: ''
+  });
 
   const [importNotification, setImportNotification] = useState<{
     success: boolean;
     message: string;
+    issues?: ValidationIssue[];
   } | null>(null);
 
-  const getFilteredFarms = () => {
-    if (cropFilter === "all") return farms;
-    return farms.filter(farm => farm.crop === cropFilter);
-  };
+  const [pendingImport, setPendingImport] = useState<{
+    data: FarmData;
+    fromVersion: string;
+  } | null>(null);
 
   const CropFilter = () => {
-    const uniqueCrops = useMemo(() => {
-      const crops = new Set(farms.map(farm => farm.crop));
-      return ["all", ...Array.from(crops)];
-    }, [farms]);
+    const uniqueCrops = useFarmState(selectUniqueCrops);
 
     return (
       <div className="flex items-center gap-2">
@@ -656,7 +773,7 @@ const DefaultComponent: React.FC = () => {
         <select
           className="border rounded px-2 py-1 text-sm w-[120px]"
           value={cropFilter}
-          onChange={(e) => setCropFilter(e.target.value)}
+          onChange={(e) => farmActions.setCropFilter(e.target.value)}
         >
           {uniqueCrops.map(crop => (
             <option key={crop} value={crop}>
@@ -669,16 +786,83 @@ const DefaultComponent: React.FC = () => {
   };
 
   useEffect(() => {
-    localStorage.setItem('farms', JSON.stringify(farms));
-  }, [farms]);
+    loadFarmState();
+  }, []);
 
+  // Fetch a forecast for every farm location that does not have one yet
   useEffect(() => {
-    fetchUserLocation();
-  }, []);
+    farms.forEach(async farm => {
+      const key = farmLocationKey(farm);
+      if (!key || requestedLocations.current.has(key)) return;
+      requestedLocations.current.add(key);
+      try {
+        const forecast = await weatherProvider.forecast(farm.latitude!, farm.longitude!, 10);
+        setWeatherByLocation(prev => ({ ...prev, [key]: forecast }));
+      } catch (error) {
+        console.error('Error fetching weather data:', error);
+        requestedLocations.current.delete(key);
+      }
+    });
+  }, [farms]);
 
+  // Backfill observed weather over the dates of each location's records and plantings
   useEffect(() => {
-    localStorage.setItem('cropPlanEvents', JSON.stringify(cropPlanEvents));
-  }, [cropPlanEvents]);
+    const ranges = new Map<string, { farm: Farm; from: string; to: string }>();
+    farms.forEach(farm => {
+      const key = farmLocationKey(farm);
+      if (!key) return;
+      const range = archivedWeatherRange(farm, plantingDate(farm, cropPlanEvents));
+      const current = ranges.get(key);
+      ranges.set(key, current ? {
+        farm,
+        from: range.from < current.from ? range.from : current.from,
+        to: range.to > current.to ? range.to : current.to,
+      } : { farm, ...range });
+    });
+    ranges.forEach(async ({ farm, from, to }, key) => {
+      const rangeKey = `${from}|${to}`;
+      if (archivedRanges.current.get(key) === rangeKey) return;
+      archivedRanges.current.set(key, rangeKey);
+      try {
+        const archive = await backfillWeather(farm.latitude!, farm.longitude!, from, to);
+        setArchiveByLocation(prev => ({ ...prev, [key]: archive }));
+      } catch (error) {
+        console.error('Error backfilling weather archive:', error);
+        archivedRanges.current.delete(key);
+      }
+    });
+  }, [farms, cropPlanEvents]);
+
+  const forecastForFarm = useCallback((farm: Farm) => {
+    const key = farmLocationKey(farm);
+    return key ? weatherByLocation[key] || [] : [];
+  }, [weatherByLocation]);
+
+  // Observed days first; the forecast fills in today and the days ahead
+  const weatherForFarm = useCallback((farm: Farm) => {
+    const key = farmLocationKey(farm);
+    if (!key) return [];
+    const archive = archiveByLocation[key] || [];
+    const archivedDates = new Set(archive.map(day => day.date));
+    return [...archive, ...(weatherByLocation[key] || []).filter(day => !archivedDates.has(day.date))];
+  }, [archiveByLocation, weatherByLocation]);
+
+  const waterBalanceForFarm = useCallback(
+    (farm: Farm) => waterBalance(
+      farm,
+      weatherForFarm(farm),
+      cropSettings(crops, farm.crop),
+      plantingDate(farm, cropPlanEvents),
+      scoring.irrigationTolerance
+    ),
+    [weatherForFarm, crops, cropPlanEvents, scoring.irrigationTolerance]
+  );
+
+  const irrigationScheduleForFarm = useCallback(
+    (farm: Farm) =>
+      irrigationSchedule(farm, weatherForFarm(farm), cropSettings(crops, farm.crop), plantingDate(farm, cropPlanEvents)),
+    [weatherForFarm, crops, cropPlanEvents]
+  );
 
   useEffect(() => {
     const style = document.createElement('style');
@@ -687,301 +871,226 @@ const DefaultComponent: React.FC = () => {
     return () => style.remove();
   }, []);
 
-  const fetchUserLocation = async () => {
-    try {
-      const response = await fetch('https://ipapi.co/json/');
-      const data = await response.json();
-      const { latitude, longitude } = data;
-      fetchWeatherData(latitude, longitude);
-    } catch (error) {
-      console.error('Error fetching user location:', error);
-    }
-  };
-
-  const fetchWeatherData = async (latitude: number, longitude: number) => {
-    try {
-      const response = await fetch(
-        `https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&daily=temperature_2m_max,weathercode&temperature_unit=fahrenheit&timezone=auto&forecast_days=10`
-      );
-      const data = await response.json();
-
-      const formattedData = data.daily.time.map((date: string, index: number) => {
-        const weatherInfo = getWeatherInfo(data.daily.weathercode[index]);
-        return {
-          date: new Date(date).toLocaleDateString(),
-          temp: data.daily.temperature_2m_max[index],
-          weather: weatherInfo.desc,
-          icon: weatherInfo.icon
-        };
-      });
-
-      setWeatherData(formattedData);
-    } catch (error) {
-      console.error('Error fetching weather data:', error);
-      setWeatherData([]);
-    }
-  };
+  // Farm sizes are entered in the preferred area unit and stored in hectares
+  const sizeFromInput = (value: string) =>
+    value.trim() === '' ? '' : String(units.fromDisplay('area', parseFloat(value)));
 
-  const handleAddFarm = () => {
-    setFarms([...farms, {
-      id: farms.length + 1,
+  const handleAddFarm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await farmActions.addFarm({
       name: newFarm.name,
-      size: newFarm.size,
+      size: sizeFromInput(newFarm.size),
       crop: newFarm.crop,
+      latitude: parseCoordinate(newFarm.latitude),
+      longitude: parseCoordinate(newFarm.longitude),
+      soilType: newFarm.soilType || undefined,
       rotationHistory: newFarm.rotationHistory,
       waterHistory: [],
       fertilizerHistory: [],
       harvestHistory: []
-    }]);
+    });
     setIsAddingFarm(false);
     setNewFarm({ 
       name: '', 
       size: '', 
       crop: '', 
+      latitude: '',
+      longitude: '',
+      soilType: '',
       rotationHistory: [] 
     });
   };
 
   // Update handleEditFarm to include rotationHistory
-  const handleEditFarm = () => {
+  const handleEditFarm = async (e: React.FormEvent) => {
+    e.preventDefault();
     if (editingFarm) {
-      const updatedFarms = farms.map(farm => 
-        farm.id === editingFarm.id ? { ...editingFarm, ...newFarm } : farm
-      );
-      setFarms(updatedFarms);
+      await farmActions.updateFarm({
+        ...editingFarm,
+        ...newFarm,
+        size: sizeFromInput(newFarm.size),
+        latitude: parseCoordinate(newFarm.latitude),
+        longitude: parseCoordinate(newFarm.longitude),
+        soilType: newFarm.soilType || undefined
+      });
       setIsEditingFarm(false);
       setEditingFarm(null);
       setNewFarm({ 
         name: '', 
         size: '', 
         crop: '', 
+        latitude: '',
+        longitude: '',
+        soilType: '',
         rotationHistory: [] 
       });
     }
   };
 
-  const handleDeleteFarm = (id: number) => {
+  const handleDeleteFarm = (id: string) => {
     setConfirmDelete({ id, type: 'farm' });
   };
 
-  const handleAddWaterUsage = (e: React.FormEvent) => {
+  const handleAddWaterUsage = async (e: React.FormEvent) => {
     e.preventDefault();
-    const updatedFarms = farms.map(farm => {
-      if (farm.id === parseInt(newWaterUsage.farmId)) {
-        return {
-          ...farm,
-          waterHistory: [...farm.waterHistory, {
-            amount: parseFloat(newWaterUsage.amount),
-            date: newWaterUsage.date
-          }]
-        };
-      }
-      return farm;
+    await farmActions.recordWater(newWaterUsage.farmId, {
+      amount: units.fromDisplay('water', parseFloat(newWaterUsage.amount)),
+      date: newWaterUsage.date
     });
-    setFarms(updatedFarms);
     setNewWaterUsage({ farmId: '', amount: '', date: '' });
   };
 
-  const handleEditWaterUsage = (e: React.FormEvent) => {
+  const handleEditWaterUsage = async (e: React.FormEvent) => {
     e.preventDefault();
     if (editingWaterUsage) {
-      const updatedFarms = farms.map(farm => {
-        if (farm.id === parseInt(newWaterUsage.farmId)) {
-          return {
-            ...farm,
-            waterHistory: farm.waterHistory.map(usage =>
-              usage.date === editingWaterUsage.date ? { ...usage, amount: parseFloat(newWaterUsage.amount), date: newWaterUsage.date } : usage
-            )
-          };
-        }
-        return farm;
+      await farmActions.updateRecord(newWaterUsage.farmId, 'waterHistory', {
+        ...editingWaterUsage,
+        amount: units.fromDisplay('water', parseFloat(newWaterUsage.amount)),
+        date: newWaterUsage.date
       });
-      setFarms(updatedFarms);
       setIsEditingWaterUsage(false);
       setEditingWaterUsage(null);
       setNewWaterUsage({ farmId: '', amount: '', date: '' });
     }
   };
 
-  const handleAddFertilizer = (e: React.FormEvent) => {
+  const handleAddFertilizer = async (e: React.FormEvent) => {
     e.preventDefault();
-    const updatedFarms = farms.map(farm => {
-      if (farm.id === parseInt(newFertilizer.farmId)) {
-        return {
-          ...farm,
-          fertilizerHistory: [...farm.fertilizerHistory, {
-            type: newFertilizer.type,
-            amount: parseFloat(newFertilizer.amount),
-            date: newFertilizer.date
-          }]
-        };
-      }
-      return farm;
+    await farmActions.recordFertilizer(newFertilizer.farmId, {
+      type: newFertilizer.type,
+      amount: units.fromDisplay('fertilizer', parseFloat(newFertilizer.amount)),
+      date: newFertilizer.date
     });
-    setFarms(updatedFarms);
     setNewFertilizer({ farmId: '', type: '', amount: '', date: '' });
   };
 
-  const handleEditFertilizer = (e: React.FormEvent) => {
+  const handleEditFertilizer = async (e: React.FormEvent) => {
     e.preventDefault();
     if (editingFertilizer) {
-      const updatedFarms = farms.map(farm => {
-        if (farm.id === parseInt(newFertilizer.farmId)) {
-          return {
-            ...farm,
-            fertilizerHistory: farm.fertilizerHistory.map(fertilizer =>
-              fertilizer.date === editingFertilizer.date ? { ...fertilizer, type: newFertilizer.type, amount: parseFloat(newFertilizer.amount), date: newFertilizer.date } : fertilizer
-            )
-          };
-        }
-        return farm;
+      await farmActions.updateRecord(newFertilizer.farmId, 'fertilizerHistory', {
+        ...editingFertilizer,
+        type: newFertilizer.type,
+        amount: units.fromDisplay('fertilizer', parseFloat(newFertilizer.amount)),
+        date: newFertilizer.date
       });
-      setFarms(updatedFarms);
       setIsEditingFertilizer(false);
       setEditingFertilizer(null);
       setNewFertilizer({ farmId: '', type: '', amount: '', date: '' });
     }
   };
 
-  const handleAddHarvest = (e: React.FormEvent) => {
+  // Harvests are entered in the crop's unit; an edited record keeps the unit it was recorded in
+  const harvestSettingsFor = (farmId: string): CropSettings => {
+    const settings = cropSettings(crops, farms.find(farm => farm.id === farmId)?.crop ?? '');
+    if (!editingHarvest) return settings;
+    return {
+      ...settings,
+      harvestUnit: editingHarvest.unit,
+      kgPerUnit: editingHarvest.amount > 0 ? editingHarvest.weight / editingHarvest.amount : settings.kgPerUnit,
+    };
+  };
+
+  const handleAddHarvest = async (e: React.FormEvent) => {
     e.preventDefault();
-    const updatedFarms = farms.map(farm => {
-      if (farm.id === parseInt(newHarvest.farmId)) {
-        return {
-          ...farm,
-          harvestHistory: [...farm.harvestHistory, {
-            amount: parseFloat(newHarvest.amount),
-            date: newHarvest.date
-          }]
-        };
-      }
-      return farm;
+    const { harvestUnit, kgPerUnit } = harvestSettingsFor(newHarvest.farmId);
+    const amount = parseFloat(newHarvest.amount);
+    await farmActions.recordHarvest(newHarvest.farmId, {
+      amount,
+      unit: harvestUnit,
+      weight: amount * kgPerUnit,
+      date: newHarvest.date
     });
-    setFarms(updatedFarms);
     setNewHarvest({ farmId: '', amount: '', date: '' });
   };
 
-  const handleEditHarvest = (e: React.FormEvent) => {
+  const handleEditHarvest = async (e: React.FormEvent) => {
     e.preventDefault();
     if (editingHarvest) {
-      const updatedFarms = farms.map(farm => {
-        if (farm.id === parseInt(newHarvest.farmId)) {
-          return {
-            ...farm,
-            harvestHistory: farm.harvestHistory.map(harvest =>
-              harvest.date === editingHarvest.date ? { ...harvest, amount: parseFloat(newHarvest.amount), date: newHarvest.date } : harvest
-            )
-          };
-        }
-        return farm;
+      const { kgPerUnit } = harvestSettingsFor(newHarvest.farmId);
+      const amount = parseFloat(newHarvest.amount);
+      await farmActions.updateRecord(newHarvest.farmId, 'harvestHistory', {
+        ...editingHarvest,
+        amount,
+        weight: amount * kgPerUnit,
+        date: newHarvest.date
       });
-      setFarms(updatedFarms);
       setIsEditingHarvest(false);
       setEditingHarvest(null);
       setNewHarvest({ farmId: '', amount: '', date: '' });
     }
   };
 
-  const handleResolveIssue = (id: number) => {
-    setIssues(issues.filter(issue => issue.id !== id));
+  const handleResolveIssue = async (id: string) => {
+    await farmActions.resolveIssue(id);
   };
 
-  const handleDeleteTask = (id: number) => {
+  const handleDeleteTask = (id: string) => {
     setConfirmDelete({ id, type: 'task' });
   };
 
-  const handleAddRotation = (e: React.FormEvent) => {
+  const handleAddRotation = async (e: React.FormEvent) => {
     e.preventDefault();
-    const updatedFarms = farms.map(farm => {
-      if (farm.id === parseInt(newRotation.farmId)) {
-        return {
-          ...farm,
-          rotationHistory: [
-            ...(farm.rotationHistory || []),
-            {
-              crop: newRotation.crop,
-              startDate: newRotation.startDate,
-              endDate: newRotation.endDate
-            }
-          ]
-        };
-      }
-      return farm;
-    });
-    setFarms(updatedFarms);
+    const rotation = {
+      crop: newRotation.crop,
+      startDate: newRotation.startDate,
+      endDate: newRotation.endDate
+    };
+    if (editingRotation) {
+      await farmActions.updateRecord(newRotation.farmId, 'rotationHistory', { ...rotation, id: editingRotation.id });
+    } else {
+      await farmActions.recordRotation(newRotation.farmId, rotation);
+    }
+    setEditingRotation(null);
     setIsAddingRotation(false);
     setNewRotation({ farmId: '', crop: '', startDate: '', endDate: '' });
   };
 
-  const confirmDeleteAction = () => {
-    if (confirmDelete) {
+  const handleAddPesticide = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const application = {
+      type: newPesticide.type,
+      amount: units.fromDisplay('pesticide', parseFloat(newPesticide.amount)),
+      toxicity: parseFloat(newPesticide.toxicity),
+      date: newPesticide.date
+    };
+    if (editingPesticide) {
+      await farmActions.updateRecord(newPesticide.farmId, 'pesticides', { ...application, id: editingPesticide.id });
+    } else {
+      await farmActions.recordPesticide(newPesticide.farmId, application);
+    }
+    setEditingPesticide(null);
+    setIsAddingPesticide(false);
+    setNewPesticide({ farmId: '', type: '', amount: '', toxicity: String(DEFAULT_TOXICITY), date: '' });
+  };
+
+  const confirmDeleteAction = async () => {
+    if (!confirmDelete) return;
+    try {
       switch (confirmDelete.type) {
         case 'farm':
-          setFarms(farms.filter(farm => farm.id !== confirmDelete.id));
+          await farmActions.deleteFarm(confirmDelete.id);
           break;
         case 'waterUsage':
-          setFarms(farms.map(farm => {
-            if (farm.id === confirmDelete.id) {
-              return {
-                ...farm,
-                waterHistory: farm.waterHistory.filter(usage => 
-                  new Date(usage.date).toISOString() !== new Date(confirmDelete.date!).toISOString()
-                )
-              };
-            }
-            return farm;
-          }));
-          break;
         case 'fertilizer':
-          setFarms(farms.map(farm => {
-            if (farm.id === confirmDelete.id) {
-              return {
-                ...farm,
-                fertilizerHistory: farm.fertilizerHistory.filter(fertilizer => 
-                  new Date(fertilizer.date).toISOString() !== new Date(confirmDelete.date!).toISOString()
-                )
-              };
-            }
-            return farm;
-          }));
-          break;
         case 'harvest':
-          setFarms(farms.map(farm => {
-            if (farm.id === confirmDelete.id) {
-              return {
-                ...farm,
-                harvestHistory: farm.harvestHistory.filter(harvest => 
-                  new Date(harvest.date).toISOString() !== new Date(confirmDelete.date!).toISOString()
-                )
-              };
-            }
-            return farm;
-          }));
-          break;
         case 'rotation':
-          setFarms(farms.map(farm => {
-            if (farm.id === confirmDelete.id) {
-              return {
-                ...farm,
-                rotationHistory: (farm.rotationHistory || []).filter(rotation => 
-                  new Date(rotation.startDate).toISOString() !== new Date(confirmDelete.date!).toISOString()
-                )
-              };
-            }
-            return farm;
-          }));
+        case 'pesticide':
+          await farmActions.deleteRecord(confirmDelete.id, RECORD_HISTORY[confirmDelete.type], confirmDelete.recordId!);
           break;
         case 'task':
-          setTasks(tasks.filter(task => task.id !== confirmDelete.id));
+          await farmActions.deleteTask(confirmDelete.id);
           break;
         case 'cropEvent':
-          setCropPlanEvents(prev => prev.filter(event => event.id !== confirmDelete.eventId));
+          await farmActions.deleteCropPlanEvent(confirmDelete.id);
           break;
         default:
           break;
       }
-      setConfirmDelete(null);
+      toast(`${DELETE_LABELS[confirmDelete.type] || 'Record'} deleted`, { action: undoAction });
+    } catch (error) {
+      toast.error(`Error deleting: ${error instanceof Error ? error.message : 'Could not save data'}`);
     }
+    setConfirmDelete(null);
   };
 
   const handleWalkthroughComplete = () => {
@@ -996,20 +1105,20 @@ const DefaultComponent: React.FC = () => {
   };
 
   const handleExportData = () => {
+    const workspace = listWorkspaces().find(w => w.id === workspaceId);
     const exportData: ExportData = {
-      version: "1.0",
+      version: CURRENT_SCHEMA_VERSION,
       exportDate: new Date().toISOString(),
-      farms,
-      tasks,
-      issues,
-      cropPlanEvents
+      workspace: workspace?.name,
+      ...farmData
     };
+    const workspaceSlug = workspace ? `${workspace.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-` : '';
 
     const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `farm-data-${new Date().toISOString().split('T')[0]}.json`;
+    a.download = `farm-data-${workspaceSlug}${new Date().toISOString().split('T')[0]}.json`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -1021,47 +1130,76 @@ const DefaultComponent: React.FC = () => {
     if (!file) return;
 
     const reader = new FileReader();
-    reader.onload = (e: ProgressEvent<FileReader>) => {
+    reader.onload = async (e: ProgressEvent<FileReader>) => {
       try {
-        const importedData = JSON.parse(e.target?.result as string) as ExportData;
+        const parsedData = JSON.parse(e.target?.result as string) as VersionedData;
         
         // Validate the imported data structure
-        if (!importedData.version || !importedData.exportDate) {
+        if (!parsedData.version || !parsedData.exportDate) {
           throw new Error('Invalid file format');
         }
 
-        // Convert date strings back to Date objects in cropPlanEvents
-        const processedEvents = importedData.cropPlanEvents.map(event => ({
-          ...event,
-          start: new Date(event.start),
-          end: new Date(event.end)
-        }));
+        // Upgrade exports from older builds to the current schema
+        const { data: migratedData, fromVersion } = migrateData<unknown>(parsedData);
 
-        // Update all state
-        setFarms(importedData.farms);
-        setTasks(importedData.tasks);
-        setIssues(importedData.issues);
-        setCropPlanEvents(processedEvents);
-
-        setImportNotification({
-          success: true,
-          message: 'Data imported successfully'
+        // Reject the whole file if any record is malformed so existing data is never touched
+        const validation = validateWith(exportDataSchema, migratedData);
+        if (!validation.success) {
+          setImportNotification({
+            success: false,
+            message: `Found ${validation.issues.length} invalid ${validation.issues.length === 1 ? 'field' : 'fields'}. Nothing was imported.`,
+            issues: validation.issues
+          });
+          return;
+        }
+        const importedData = validation.data;
+
+        // Let the user choose how the file is combined with existing data
+        setPendingImport({
+          data: {
+            farms: importedData.farms,
+            tasks: importedData.tasks,
+            issues: importedData.issues,
+            cropPlanEvents: importedData.cropPlanEvents,
+            crops: importedData.crops
+          },
+          fromVersion
         });
       } catch (error) {
         setImportNotification({
           success: false,
-          message: 'Error importing file: Invalid format'
+          message: `Error importing file: ${error instanceof Error ? error.message : 'Invalid format'}`
         });
       }
     };
     reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  const handleConfirmImport = async (data: FarmData, summary: ImportSummary) => {
+    const fromVersion = pendingImport?.fromVersion;
+    setPendingImport(null);
+    try {
+      await farmActions.replaceAll(data);
+
+      toast.success('Data imported successfully', {
+        description: `${summary.added} added, ${summary.updated} updated, ${summary.unchanged} unchanged` +
+          (fromVersion && fromVersion !== CURRENT_SCHEMA_VERSION ? ` (upgraded from version ${fromVersion})` : ''),
+        action: undoAction
+      });
+    } catch (error) {
+      setImportNotification({
+        success: false,
+        message: `Error importing file: ${error instanceof Error ? error.message : 'Could not save data'}`
+      });
+    }
   };
 
   const TaskManager = () => {
     const [taskInput, setTaskInput] = useState({ title: '', dueDate: '', priority: 'medium' });
 
-    const handleTaskSubmit = () => {
-      setTasks([...tasks, { ...taskInput, id: Date.now(), completed: false }]);
+    const handleTaskSubmit = async () => {
+      await farmActions.addTask({ ...taskInput, completed: false });
       setTaskInput({ title: '', dueDate: '', priority: 'medium' });
     };
 
@@ -1103,11 +1241,7 @@ const DefaultComponent: React.FC = () => {
                     <Button 
                       variant="ghost" 
                       size="sm"
-                      onClick={() => {
-                        setTasks(tasks.map(t => 
-                          t.id === task.id ? {...t, completed: !t.completed} : t
-                        ));
-                      }}
+                      onClick={() => farmActions.saveTask({ ...task, completed: !task.completed })}
                     >
                       {task.completed ? 'Undo' : 'Complete'}
                     </Button>
@@ -1131,8 +1265,8 @@ const DefaultComponent: React.FC = () => {
   const IssueTracker = () => {
     const [issueInput, setIssueInput] = useState({ type: '', description: '', severity: 'low' });
 
-    const handleIssueSubmit = () => {
-      setIssues([...issues, { ...issueInput, id: Date.now(), status: 'open', dateReported: new Date() }]);
+    const handleIssueSubmit = async () => {
+      await farmActions.reportIssue({ ...issueInput, status: 'open', dateReported: new Date() });
       setIssueInput({ type: '', description: '', severity: 'low' });
     };
 
@@ -1206,7 +1340,31 @@ const DefaultComponent: React.FC = () => {
     );
   };
 
-  const sustainabilityMetrics = useMemo(() => calculateSustainabilityMetrics(getFilteredFarms(), weatherData), [farms, weatherData, cropFilter]);
+  const farmScores = useMemo(
+    () => calculateFarmScores(filteredFarms, weatherForFarm, waterBalanceForFarm, scoring),
+    [filteredFarms, weatherForFarm, waterBalanceForFarm, scoring]
+  );
+  const sustainabilityMetrics = useMemo(() => calculateSustainabilityMetrics(farmScores, scoring), [farmScores, scoring]);
+
+  // Scores of all farms at the end of the day, as if only the records dated up to it existed
+  const scoresAsOf = useCallback((date: string) => {
+    const balanceAsOf = (farm: Farm) => waterBalance(
+      farm,
+      weatherForFarm(farm),
+      cropSettings(crops, farm.crop),
+      plantingDate(farm, cropPlanEvents, date),
+      scoring.irrigationTolerance
+    );
+    const farmScoresAsOf = calculateFarmScores(farms.map(farm => farmAsOf(farm, date)), weatherForFarm, balanceAsOf, scoring);
+    return calculateSustainabilityMetrics(farmScoresAsOf, scoring);
+  }, [farms, weatherForFarm, crops, cropPlanEvents, scoring]);
+
+  const showFarmHistory = (farm: Farm) => {
+    setSearchTerm(farm.name);
+    setSearchBy('farm');
+    setHistoryView('records');
+    setActiveTab('history');
+  };
 
   // Update the SustainabilityScoreCard component to show only the metrics we have
   const SustainabilityScoreCard = () => (
@@ -1214,69 +1372,113 @@ const DefaultComponent: React.FC = () => {
       <CardHeader>
         <CardTitle className="flex justify-between items-center">
           <span>Sustainability Score</span>
-          <CropFilter />
+          <div className="flex items-center gap-2">
+            <CropFilter />
+            <Button variant="ghost" size="icon" title="Scoring settings" onClick={() => setIsScoringSettingsOpen(true)}>
+              <SlidersHorizontal className="h-4 w-4" />
+            </Button>
+          </div>
         </CardTitle>
       </CardHeader>
       <CardContent>
         <div className="text-center">
           <div className="text-6xl font-bold mb-4" style={{
-            color: sustainabilityMetrics?.overallScore! >= 80 ? '#16a34a' : 
-                   sustainabilityMetrics?.overallScore! >= 60 ? '#ca8a04' : '#dc2626'
+            color: (sustainabilityMetrics?.overallScore ?? 0) >= 80 ? '#16a34a' : 
+                   (sustainabilityMetrics?.overallScore ?? 0) >= 60 ? '#ca8a04' : '#dc2626'
           }}>
-            {sustainabilityMetrics ? sustainabilityMetrics.overallScore : '-'}
+            {sustainabilityMetrics?.overallScore ?? '-'}
           </div>
           <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
-            <div>
+            <button
+              type="button"
+              className="rounded p-1 hover:bg-gray-50"
+              title="Show breakdown"
+              onClick={() => setBreakdownMetric('waterEfficiency')}
+            >
               <p className="text-gray-500">Water Efficiency</p>
               <p className="font-medium text-blue-600">
-                {sustainabilityMetrics ? `${sustainabilityMetrics.waterEfficiency}%` : '-'}
+                {sustainabilityMetrics && sustainabilityMetrics.waterEfficiency !== null ? `${sustainabilityMetrics.waterEfficiency}%` : '-'}
               </p>
-            </div>
-            <div>
+            </button>
+            <button
+              type="button"
+              className="rounded p-1 hover:bg-gray-50"
+              title="Show breakdown"
+              onClick={() => setBreakdownMetric('organicScore')}
+            >
               <p className="text-gray-500">Organic Practices</p>
               <p className="font-medium text-green-600">
-                {sustainabilityMetrics ? `${sustainabilityMetrics.organicScore}%` : '-'}
+                {sustainabilityMetrics && sustainabilityMetrics.organicScore !== null ? `${sustainabilityMetrics.organicScore}%` : '-'}
               </p>
-            </div>
-            <div>
+            </button>
+            <button
+              type="button"
+              className="rounded p-1 hover:bg-gray-50"
+              title="Show breakdown"
+              onClick={() => setBreakdownMetric('harvestEfficiency')}
+            >
               <p className="text-gray-500">Harvest Efficiency</p>
               <p className="font-medium text-yellow-600">
-                {sustainabilityMetrics ? `${sustainabilityMetrics.harvestEfficiency}%` : '-'}
+                {sustainabilityMetrics && sustainabilityMetrics.harvestEfficiency !== null ? `${sustainabilityMetrics.harvestEfficiency}%` : '-'}
               </p>
-            </div>
-            <div>
+            </button>
+            <button
+              type="button"
+              className="rounded p-1 hover:bg-gray-50"
+              title="Show breakdown"
+              onClick={() => setBreakdownMetric('soilQualityScore')}
+            >
               <p className="text-gray-500">Soil Quality</p>
               <p className="font-medium text-brown-600">
-                {sustainabilityMetrics ? `${sustainabilityMetrics.soilQualityScore}%` : '-'}
+                {sustainabilityMetrics && sustainabilityMetrics.soilQualityScore !== null ? `${sustainabilityMetrics.soilQualityScore}%` : '-'}
               </p>
-            </div>
-            <div>
+            </button>
+            <button
+              type="button"
+              className="rounded p-1 hover:bg-gray-50"
+              title="Show breakdown"
+              onClick={() => setBreakdownMetric('rotationScore')}
+            >
               <p className="text-gray-500">Crop Rotation</p>
               <p className="font-medium text-orange-600">
-                {sustainabilityMetrics ? `${sustainabilityMetrics.rotationScore}%` : '-'}
+                {sustainabilityMetrics && sustainabilityMetrics.rotationScore !== null ? `${sustainabilityMetrics.rotationScore}%` : '-'}
               </p>
-            </div>
+            </button>
+            <button
+              type="button"
+              className="rounded p-1 hover:bg-gray-50"
+              title="Show breakdown"
+              onClick={() => setBreakdownMetric('pesticideScore')}
+            >
+              <p className="text-gray-500">Pesticide Load</p>
+              <p className="font-medium text-purple-600">
+                {sustainabilityMetrics && sustainabilityMetrics.pesticideScore !== null ? `${sustainabilityMetrics.pesticideScore}%` : '-'}
+              </p>
+            </button>
           </div>
           {/* Update recommendations based on new metrics */}
           {sustainabilityMetrics && (
             <div className="mt-4 text-sm text-gray-500">
               <p className="mb-2">Recommendations:</p>
               <ul className="text-left list-disc pl-4 space-y-1">
-                {sustainabilityMetrics.waterEfficiency < 80 && (
+                {sustainabilityMetrics.waterEfficiency !== null && sustainabilityMetrics.waterEfficiency < 80 && (
                   <li>Consider implementing drip irrigation to improve water efficiency</li>
                 )}
-                {sustainabilityMetrics.organicScore < 80 && (
+                {sustainabilityMetrics.organicScore !== null && sustainabilityMetrics.organicScore < 80 && (
                   <li>Explore organic fertilizer alternatives</li>
                 )}
-                {sustainabilityMetrics.harvestEfficiency < 80 && (
+                {sustainabilityMetrics.harvestEfficiency !== null && sustainabilityMetrics.harvestEfficiency < 80 && (
                   <li>Review crop density and soil health management</li>
                 )}
-                {sustainabilityMetrics.soilQualityScore < 80 && (
+                {sustainabilityMetrics.soilQualityScore !== null && sustainabilityMetrics.soilQualityScore < 80 && (
                   <li>Implement soil improvement measures</li>
                 )}
-                {sustainabilityMetrics.rotationScore < 80 && (
+                {sustainabilityMetrics.rotationScore !== null && sustainabilityMetrics.rotationScore < 80 && (
                   <li>Consider implementing more diverse crop rotations</li>
                 )}
+                {sustainabilityMetrics.pesticideScore !== null && sustainabilityMetrics.pesticideScore < 80 && (
+                  <li>Switch to less hazardous pesticides or integrated pest management</li>
+                )}
               </ul>
             </div>
           )}
@@ -1285,162 +1487,165 @@ const DefaultComponent: React.FC = () => {
     </Card>
   );
 
-  const WeatherPreview = () => (
-    <Card>
-      <CardHeader>
-        <CardTitle>10-Day Weather Preview</CardTitle>
-      </CardHeader>
-      <CardContent>
-        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
-          {weatherData.length > 0 ? (
-            weatherData.map((day, index) => (
-              <div key={index} className="text-center p-2 border rounded">
-                <p className="text-sm font-medium">{day.date}</p>
-                <p className="text-2xl my-2">{day.icon}</p>
-                <p className="text-sm text-gray-600">{day.weather}</p>
-                <p className="text-lg font-bold">{Math.round(day.temp)}°F</p>
+  const WeatherPreview = () => {
+    const locatedFarms = farms.filter(farm => farmLocationKey(farm));
+    const selectedFarm = locatedFarms.find(farm => farm.id === weatherFarmId) || locatedFarms[0];
+    const weatherData = selectedFarm ? forecastForFarm(selectedFarm) : [];
+
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex justify-between items-center">
+            <span>10-Day Weather Preview</span>
+            {locatedFarms.length > 1 && (
+              <select
+                className="border rounded px-2 py-1 text-sm font-normal"
+                value={selectedFarm.id}
+                onChange={(e) => setWeatherFarmId(e.target.value)}
+              >
+                {locatedFarms.map(farm => (
+                  <option key={farm.id} value={farm.id}>{farm.name}</option>
+                ))}
+              </select>
+            )}
+            {locatedFarms.length === 1 && (
+              <span className="text-sm font-normal text-gray-500">{selectedFarm.name}</span>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {!selectedFarm ? (
+              <div className="col-span-full text-center text-gray-500">
+                Set a location on a farm to see its forecast.
               </div>
-            ))
-          ) : (
-            <div className="col-span-full text-center text-gray-500">
-              Loading weather data...
-            </div>
-          )}
-        </div>
-      </CardContent>
-    </Card>
-  );
+            ) : weatherData.length > 0 ? (
+              weatherData.map((day, index) => (
+                <div key={index} className="text-center p-2 border rounded">
+                  <p className="text-sm font-medium">{new Date(`${day.date}T00:00`).toLocaleDateString()}</p>
+                  <p className="text-2xl my-2">{day.icon}</p>
+                  <p className="text-sm text-gray-600">{day.weather}</p>
+                  <p className="text-lg font-bold">
+                    {units.format('temperature', day.temp)}
+                    {day.tempMin !== undefined && (
+                      <span className="text-sm font-normal text-gray-500"> / {units.format('temperature', day.tempMin)}</span>
+                    )}
+                  </p>
+                  <div className="text-xs text-gray-500 mt-1 space-y-0.5">
+                    {day.precipitation !== undefined && <p>{units.format('precipitation', day.precipitation)} rain</p>}
+                    {day.windSpeed !== undefined && <p>Wind {units.format('windSpeed', day.windSpeed)}</p>}
+                    {day.humidity !== undefined && <p>{Math.round(day.humidity)}% humidity</p>}
+                  </div>
+                </div>
+              ))
+            ) : (
+              <div className="col-span-full text-center text-gray-500">
+                Loading weather data...
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
 
   // Update the HistoryPage component to include rotations
   const HistoryPage = () => {
-    const [searchTerm, setSearchTerm] = useState('');
-    const [searchBy, setSearchBy] = useState('all');
-
-    const allHistory = useMemo(() => {
-      const history: AnyHistoryEntry[] = farms.flatMap(farm => [
-        ...farm.waterHistory.map(usage => ({
-          type: 'Water Usage' as const,
-          date: new Date(usage.date),
-          farm: farm.name,
-          amount: `${usage.amount} gallons`,
-          icon: <Droplet className="h-4 w-4 text-blue-500" />,
-          color: 'blue',
-          farmId: farm.id,
-          usage
-        })),
-        ...farm.fertilizerHistory.map(fertilizer => ({
-          type: 'Fertilizer Usage' as const,
-          date: new Date(fertilizer.date),
-          farm: farm.name,
-          amount: `${fertilizer.amount} lbs`,
-          icon: <Leaf className="h-4 w-4 text-green-500" />,
-          color: 'green',
-          farmId: farm.id,
-          fertilizer
-        })),
-        ...farm.harvestHistory.map(harvest => ({
-          type: 'Harvest' as const,
-          date: new Date(harvest.date),
-          farm: farm.name,
-          amount: `${harvest.amount} bushels`,
-          icon: <LayoutDashboard className="h-4 w-4 text-purple-500" />,
-          color: 'purple',
-          farmId: farm.id,
-          harvest
-        })),
-        ...(farm.rotationHistory || []).map(rotation => ({
-          type: 'Crop Rotation' as const,
-          date: new Date(rotation.startDate),
-          endDate: new Date(rotation.endDate),
-          farm: farm.name,
-          crop: rotation.crop,
-          icon: <RotateCw className="h-4 w-4 text-orange-500" />,
-          color: 'orange',
-          farmId: farm.id,
-          rotation
-        }))
-      ]);
-
-      return history.sort((a, b) => b.date.getTime() - a.date.getTime());
-    }, [farms]);
-
-    const filteredHistory = useMemo(() => {
-      if (!searchTerm) return allHistory;
-      return allHistory.filter(entry => {
-        switch (searchBy) {
-          case 'farm':
-            return entry.farm.toLowerCase().includes(searchTerm.toLowerCase());
-          case 'type':
-            return entry.type.toLowerCase().includes(searchTerm.toLowerCase());
-          case 'amount':
-            return entry.amount?.toLowerCase().includes(searchTerm.toLowerCase());
-          case 'date':
-            return entry.date.toLocaleDateString().includes(searchTerm);
-          case 'crop':
-            return entry.crop?.toLowerCase().includes(searchTerm.toLowerCase());
-          default:
-            return (
-              entry.farm.toLowerCase().includes(searchTerm.toLowerCase()) ||
-              entry.type.toLowerCase().includes(searchTerm.toLowerCase()) ||
-              (entry.amount && entry.amount.toLowerCase().includes(searchTerm.toLowerCase())) ||
-              (entry.crop && entry.crop.toLowerCase().includes(searchTerm.toLowerCase())) ||
-              entry.date.toLocaleDateString().includes(searchTerm)
-            );
-        }
-      });
-    }, [searchTerm, searchBy, allHistory]);
+    const allHistory = useFarmState(selectAllHistory);
 
-    const handleEditHistory = (entry: any) => {
+    const amountLabel = (entry: HistoryEntry) => {
+      if (entry.type === 'Harvest') {
+        return `${entry.harvest.amount.toLocaleString()} ${entry.harvest.unit} (${units.format('harvest', entry.harvest.weight)})`;
+      }
+      return entry.amount !== undefined && entry.quantity ? units.format(entry.quantity, entry.amount) : undefined;
+    };
+
+    const matchesSearch = (entry: HistoryEntry) => {
+      switch (searchBy) {
+        case 'farm':
+          return entry.farm.toLowerCase().includes(searchTerm.toLowerCase());
+        case 'type':
+          return entry.type.toLowerCase().includes(searchTerm.toLowerCase());
+        case 'amount':
+          return amountLabel(entry)?.toLowerCase().includes(searchTerm.toLowerCase());
+        case 'date':
+          return entry.date.toLocaleDateString().includes(searchTerm);
+        case 'crop':
+          return entry.crop?.toLowerCase().includes(searchTerm.toLowerCase());
+        default:
+          return (
+            entry.farm.toLowerCase().includes(searchTerm.toLowerCase()) ||
+            entry.type.toLowerCase().includes(searchTerm.toLowerCase()) ||
+            amountLabel(entry)?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+            (entry.crop && entry.crop.toLowerCase().includes(searchTerm.toLowerCase())) ||
+            entry.date.toLocaleDateString().includes(searchTerm)
+          );
+      }
+    };
+    const filteredHistory = searchTerm ? allHistory.filter(matchesSearch) : allHistory;
+
+    const handleEditHistory = (entry: HistoryEntry) => {
       switch (entry.type) {
         case 'Water Usage':
           setEditingWaterUsage(entry.usage);
-          setNewWaterUsage({ farmId: entry.farmId.toString(), amount: entry.usage.amount.toString(), date: entry.usage.date });
+          setNewWaterUsage({ farmId: entry.farmId, amount: units.toInput('water', entry.usage.amount), date: entry.usage.date });
           setIsEditingWaterUsage(true);
           setIsAddingWaterUsage(true);
           break;
         case 'Fertilizer Usage':
           setEditingFertilizer(entry.fertilizer);
-          setNewFertilizer({ farmId: entry.farmId.toString(), type: entry.fertilizer.type, amount: entry.fertilizer.amount.toString(), date: entry.fertilizer.date });
+          setNewFertilizer({ farmId: entry.farmId, type: entry.fertilizer.type, amount: units.toInput('fertilizer', entry.fertilizer.amount), date: entry.fertilizer.date });
           setIsEditingFertilizer(true);
           setIsAddingFertilizer(true);
           break;
         case 'Harvest':
           setEditingHarvest(entry.harvest);
-          setNewHarvest({ farmId: entry.farmId.toString(), amount: entry.harvest.amount.toString(), date: entry.harvest.date });
+          setNewHarvest({ farmId: entry.farmId, amount: entry.harvest.amount.toString(), date: entry.harvest.date });
           setIsEditingHarvest(true);
           setIsAddingHarvest(true);
           break;
         case 'Crop Rotation':
+          setEditingRotation(entry.rotation);
           setNewRotation({
-            farmId: entry.farmId.toString(),
+            farmId: entry.farmId,
             crop: entry.rotation.crop,
             startDate: new Date(entry.rotation.startDate).toISOString().split('T')[0],
             endDate: new Date(entry.rotation.endDate).toISOString().split('T')[0]
           });
           setIsAddingRotation(true);
           break;
+        case 'Pesticide Application':
+          setEditingPesticide(entry.pesticide);
+          setNewPesticide({
+            farmId: entry.farmId,
+            type: entry.pesticide.type,
+            amount: units.toInput('pesticide', entry.pesticide.amount),
+            toxicity: String(entry.pesticide.toxicity),
+            date: entry.pesticide.date
+          });
+          setIsAddingPesticide(true);
+          break;
         default:
           break;
       }
     };
 
-    const handleDeleteHistory = (entry: any) => {
+    const handleDeleteHistory = (entry: HistoryEntry) => {
       switch (entry.type) {
         case 'Water Usage':
-          setConfirmDelete({ id: entry.farmId, type: 'waterUsage', date: entry.usage.date });
+          setConfirmDelete({ id: entry.farmId, type: 'waterUsage', recordId: entry.recordId });
           break;
         case 'Fertilizer Usage':
-          setConfirmDelete({ id: entry.farmId, type: 'fertilizer', date: entry.fertilizer.date });
+          setConfirmDelete({ id: entry.farmId, type: 'fertilizer', recordId: entry.recordId });
           break;
         case 'Harvest':
-          setConfirmDelete({ id: entry.farmId, type: 'harvest', date: entry.harvest.date });
+          setConfirmDelete({ id: entry.farmId, type: 'harvest', recordId: entry.recordId });
           break;
         case 'Crop Rotation':
-          setConfirmDelete({ 
-            id: entry.farmId, 
-            type: 'rotation', 
-            date: entry.rotation.startDate 
-          });
+          setConfirmDelete({ id: entry.farmId, type: 'rotation', recordId: entry.recordId });
+          break;
+        case 'Pesticide Application':
+          setConfirmDelete({ id: entry.farmId, type: 'pesticide', recordId: entry.recordId });
           break;
         default:
           break;
@@ -1453,301 +1658,395 @@ const DefaultComponent: React.FC = () => {
           <CardTitle>History</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="space-y-4">
-            <div className="flex gap-2">
-              <Input
-                placeholder="Search history..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="mb-4 border rounded px-2 py-1"
-              />
-              <select
-                value={searchBy}
-                onChange={(e) => setSearchBy(e.target.value)}
-                className="border rounded px-2 py-1 mb-4 h-[38px]" // Match the height of the search bar
-              >
-                <option value="all">All</option>
-                <option value="farm">Farm</option>
-                <option value="type">Type</option>
-                <option value="amount">Amount</option>
-                <option value="date">Date</option>
-                <option value="crop">Crop</option>
-              </select>
-            </div>
-            {filteredHistory.map((entry, index) => (
-              <div key={index} className={`p-2 border-l-4 ${
-                entry.type === 'Crop Rotation' ? 'border-orange-500' : `border-${entry.color}-500`
-              } rounded`}>
-                <div className="flex items-center gap-2">
-                  {entry.icon}
-                  <p><strong>{entry.type}</strong></p>
-                </div>
-                <p><strong>Farm:</strong> {entry.farm}</p>
-                <p><strong>Date:</strong> {entry.date.toLocaleDateString()}</p>
-                {entry.type === 'Crop Rotation' ? (
-                  <>
-                    <p><strong>Crop:</strong> {entry.crop}</p>
-                    <p><strong>End Date:</strong> {entry.endDate?.toLocaleDateString()}</p>
-                  </>
-                ) : (
-                  <p><strong>Amount:</strong> {entry.amount}</p>
-                )}
-                <div className="flex justify-end gap-2">
-                  <Button 
-                    variant="ghost" 
-                    size="sm"
-                    onClick={() => handleEditHistory(entry)}
-                  >
-                    <Edit3 className="h-4 w-4" />
-                  </Button>
-                  <Button 
-                    variant="ghost" 
-                    size="sm"
-                    onClick={() => handleDeleteHistory(entry)}
+          <Tabs value={historyView} onValueChange={setHistoryView}>
+            <TabsList className="mb-4">
+              <TabsTrigger value="records">Records</TabsTrigger>
+              <TabsTrigger value="audit">Audit Log</TabsTrigger>
+            </TabsList>
+            <TabsContent value="records">
+              <div className="space-y-4">
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Search history..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="mb-4 border rounded px-2 py-1"
+                  />
+                  <select
+                    value={searchBy}
+                    onChange={(e) => setSearchBy(e.target.value)}
+                    className="border rounded px-2 py-1 mb-4 h-[38px]" // Match the height of the search bar
                   >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
+                    <option value="all">All</option>
+                    <option value="farm">Farm</option>
+                    <option value="type">Type</option>
+                    <option value="amount">Amount</option>
+                    <option value="date">Date</option>
+                    <option value="crop">Crop</option>
+                  </select>
                 </div>
-                {entry.type === 'Water Usage' && (
-                  <Dialog 
-                    open={isEditingWaterUsage} 
-                    onOpenChange={(open) => {
-                      if (!open) {
-                        setIsEditingWaterUsage(false);
-                        setEditingWaterUsage(null);
-                        setNewWaterUsage({ farmId: '', amount: '', date: '' });
-                      }
-                    }}
-                  >
-                    <DialogContent>
-                      <DialogHeader>
-                        <DialogTitle>Edit Water Usage</DialogTitle>
-                      </DialogHeader>
-                      <form onSubmit={handleEditWaterUsage} className="space-y-4">
-                        <div>
-                          <Label>Farm</Label>
-                          <select 
-                            className="w-full p-2 border rounded"
-                            value={newWaterUsage.farmId}
-                            onChange={(e) => setNewWaterUsage({...newWaterUsage, farmId: e.target.value})}
-                            required
-                          >
-                            <option value="">Select Farm</option>
-                            {farms.map(farm => (
-                              <option key={farm.id} value={farm.id}>{farm.name}</option>
-                            ))}
-                          </select>
-                        </div>
-                        <div>
-                          <Label>Amount (gallons)</Label>
-                          <Input 
-                            type="number"
-                            value={newWaterUsage.amount}
-                            onChange={(e) => setNewWaterUsage({...newWaterUsage, amount: e.target.value})}
-                            required
-                            className="border rounded px-2 py-1"
-                          />
-                        </div>
-                        <div>
-                          <Label>Date</Label>
-                          <Input 
-                            type="date"
-                            value={newWaterUsage.date}
-                            onChange={(e) => setNewWaterUsage({...newWaterUsage, date: e.target.value})}
-                            required
-                            className="border rounded px-2 py-1"
-                          />
-                        </div>
-                        <Button type="submit" className="w-full">Save Water Usage</Button>
-                      </form>
-                    </DialogContent>
-                  </Dialog>
-                )}
-                {entry.type === 'Fertilizer Usage' && (
-                  <Dialog 
-                    open={isEditingFertilizer} 
-                    onOpenChange={(open) => {
-                      if (!open) {
-                        setIsEditingFertilizer(false);
-                        setEditingFertilizer(null);
-                        setNewFertilizer({ farmId: '', type: '', amount: '', date: '' });
-                      }
-                    }}
-                  >
-                    <DialogContent>
-                      <DialogHeader>
-                        <DialogTitle>Edit Fertilizer Usage</DialogTitle>
-                      </DialogHeader>
-                      <form onSubmit={handleEditFertilizer} className="space-y-4">
-                        <div>
-                          <Label>Farm</Label>
-                          <select 
-                            className="w-full p-2 border rounded"
-                            value={newFertilizer.farmId}
-                            onChange={(e) => setNewFertilizer({...newFertilizer, farmId: e.target.value})}
-                            required
-                          >
-                            <option value="">Select Farm</option>
-                            {farms.map(farm => (
-                              <option key={farm.id} value={farm.id}>{farm.name}</option>
-                            ))}
-                          </select>
-                        </div>
-                        <div>
-                          <Label>Type</Label>
-                          <Input 
-                            value={newFertilizer.type}
-                            onChange={(e) => setNewFertilizer({...newFertilizer, type: e.target.value})}
-                            required
-                            className="border rounded px-2 py-1"
-                          />
-                        </div>
-                        <div>
-                          <Label>Amount (lbs)</Label>
-                          <Input 
-                            type="number"
-                            value={newFertilizer.amount}
-                            onChange={(e) => setNewFertilizer({...newFertilizer, amount: e.target.value})}
-                            required
-                            className="border rounded px-2 py-1"
-                          />
-                        </div>
-                        <div>
-                          <Label>Date</Label>
-                          <Input 
-                            type="date"
-                            value={newFertilizer.date}
-                            onChange={(e) => setNewFertilizer({...newFertilizer, date: e.target.value})}
-                            required
-                            className="border rounded px-2 py-1"
-                          />
-                        </div>
-                        <Button type="submit" className="w-full">Save Fertilizer Usage</Button>
-                      </form>
-                    </DialogContent>
-                  </Dialog>
-                )}
-                {entry.type === 'Harvest' && (
-                  <Dialog 
-                    open={isEditingHarvest} 
-                    onOpenChange={(open) => {
-                      if (!open) {
-                        setIsEditingHarvest(false);
-                        setEditingHarvest(null);
-                        setNewHarvest({ farmId: '', amount: '', date: '' });
-                      }
-                    }}
-                  >
-                    <DialogContent>
-                      <DialogHeader>
-                        <DialogTitle>Edit Harvest</DialogTitle>
-                      </DialogHeader>
-                      <form onSubmit={handleEditHarvest} className="space-y-4">
-                        <div>
-                          <Label>Farm</Label>
-                          <select 
-                            className="w-full p-2 border rounded"
-                            value={newHarvest.farmId}
-                            onChange={(e) => setNewHarvest({...newHarvest, farmId: e.target.value})}
-                            required
-                          >
-                            <option value="">Select Farm</option>
-                            {farms.map(farm => (
-                              <option key={farm.id} value={farm.id}>{farm.name}</option>
-                            ))}
-                          </select>
-                        </div>
-                        <div>
-                          <Label>Amount (bushels)</Label>
-                          <Input 
-                            type="number"
-                            value={newHarvest.amount}
-                            onChange={(e) => setNewHarvest({...newHarvest, amount: e.target.value})}
-                            required
-                            className="border rounded px-2 py-1"
-                          />
-                        </div>
-                        <div>
-                          <Label>Date</Label>
-                          <Input 
-                            type="date"
-                            value={newHarvest.date}
-                            onChange={(e) => setNewHarvest({...newHarvest, date: e.target.value})}
-                            required
-                            className="border rounded px-2 py-1"
-                          />
-                        </div>
-                        <Button type="submit" className="w-full">Save Harvest</Button>
-                      </form>
-                    </DialogContent>
-                  </Dialog>
-                )}
-                {entry.type === 'Crop Rotation' && (
-                  <Dialog 
-                    open={isAddingRotation} 
-                    onOpenChange={(open) => {
-                      if (!open) {
-                        setIsAddingRotation(false);
-                        setNewRotation({ farmId: '', crop: '', startDate: '', endDate: '' });
-                      }
-                    }}
-                  >
-                    <DialogContent>
-                      <DialogHeader>
-                        <DialogTitle>Edit Crop Rotation</DialogTitle>
-                      </DialogHeader>
-                      <form onSubmit={handleAddRotation} className="space-y-4">
-                        <div>
-                          <Label>Farm</Label>
-                          <select 
-                            className="w-full p-2 border rounded"
-                            value={newRotation.farmId}
-                            onChange={(e) => setNewRotation({...newRotation, farmId: e.target.value})}
-                            required
-                          >
-                            <option value="">Select Farm</option>
-                            {farms.map(farm => (
-                              <option key={farm.id} value={farm.id}>{farm.name}</option>
-                            ))}
-                          </select>
-                        </div>
-                        <div>
-                          <Label>Crop</Label>
-                          <Input 
-                            value={newRotation.crop}
-                            onChange={(e) => setNewRotation({...newRotation, crop: e.target.value})}
-                            required
-                            className="border rounded px-2 py-1"
-                          />
-                        </div>
-                        <div>
-                          <Label>Start Date</Label>
-                          <Input 
-                            type="date"
-                            value={newRotation.startDate}
-                            onChange={(e) => setNewRotation({...newRotation, startDate: e.target.value})}
-                            required
-                            className="border rounded px-2 py-1"
-                          />
-                        </div>
-                        <div>
-                          <Label>End Date</Label>
-                          <Input 
-                            type="date"
-                            value={newRotation.endDate}
-                            onChange={(e) => setNewRotation({...newRotation, endDate: e.target.value})}
-                            required
-                            className="border rounded px-2 py-1"
-                          />
-                        </div>
-                        <Button type="submit" className="w-full">Save Crop Rotation</Button>
-                      </form>
-                    </DialogContent>
-                  </Dialog>
-                )}
+                {filteredHistory.map((entry) => (
+                  <div key={entry.recordId} className={`p-2 border-l-4 ${
+                    entry.type === 'Crop Rotation' ? 'border-orange-500' : `border-${HISTORY_STYLES[entry.type].color}-500`
+                  } rounded`}>
+                    <div className="flex items-center gap-2">
+                      {HISTORY_STYLES[entry.type].icon}
+                      <p><strong>{entry.type}</strong></p>
+                    </div>
+                    <p><strong>Farm:</strong> {entry.farm}</p>
+                    <p><strong>Date:</strong> {entry.date.toLocaleDateString()}</p>
+                    {entry.type === 'Crop Rotation' ? (
+                      <>
+                        <p><strong>Crop:</strong> {entry.crop}</p>
+                        <p><strong>End Date:</strong> {entry.endDate?.toLocaleDateString()}</p>
+                      </>
+                    ) : (
+                      <p><strong>Amount:</strong> {amountLabel(entry)}</p>
+                    )}
+                    <div className="flex justify-end gap-2">
+                      <Button 
+                        variant="ghost" 
+                        size="sm"
+                        onClick={() => handleEditHistory(entry)}
+                      >
+                        <Edit3 className="h-4 w-4" />
+                      </Button>
+                      <Button 
+                        variant="ghost" 
+                        size="sm"
+                        onClick={() => handleDeleteHistory(entry)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    {entry.type === 'Water Usage' && (
+                      <Dialog 
+                        open={isEditingWaterUsage} 
+                        onOpenChange={(open) => {
+                          if (!open) {
+                            setIsEditingWaterUsage(false);
+                            setEditingWaterUsage(null);
+                            setNewWaterUsage({ farmId: '', amount: '', date: '' });
+                          }
+                        }}
+                      >
+                        <DialogContent>
+                          <DialogHeader>
+                            <DialogTitle>Edit Water Usage</DialogTitle>
+                          </DialogHeader>
+                          <form onSubmit={handleEditWaterUsage} className="space-y-4">
+                            <div>
+                              <Label>Farm</Label>
+                              <select 
+                                className="w-full p-2 border rounded"
+                                value={newWaterUsage.farmId}
+                                onChange={(e) => setNewWaterUsage({...newWaterUsage, farmId: e.target.value})}
+                                required
+                              >
+                                <option value="">Select Farm</option>
+                                {farms.map(farm => (
+                                  <option key={farm.id} value={farm.id}>{farm.name}</option>
+                                ))}
+                              </select>
+                            </div>
+                            <div>
+                              <Label>Amount ({units.symbol('water')})</Label>
+                              <Input 
+                                type="number"
+                                step="any"
+                                value={newWaterUsage.amount}
+                                onChange={(e) => setNewWaterUsage({...newWaterUsage, amount: e.target.value})}
+                                required
+                                className="border rounded px-2 py-1"
+                              />
+                            </div>
+                            <div>
+                              <Label>Date</Label>
+                              <Input 
+                                type="date"
+                                value={newWaterUsage.date}
+                                onChange={(e) => setNewWaterUsage({...newWaterUsage, date: e.target.value})}
+                                required
+                                className="border rounded px-2 py-1"
+                              />
+                            </div>
+                            <Button type="submit" className="w-full">Save Water Usage</Button>
+                          </form>
+                        </DialogContent>
+                      </Dialog>
+                    )}
+                    {entry.type === 'Fertilizer Usage' && (
+                      <Dialog 
+                        open={isEditingFertilizer} 
+                        onOpenChange={(open) => {
+                          if (!open) {
+                            setIsEditingFertilizer(false);
+                            setEditingFertilizer(null);
+                            setNewFertilizer({ farmId: '', type: '', amount: '', date: '' });
+                          }
+                        }}
+                      >
+                        <DialogContent>
+                          <DialogHeader>
+                            <DialogTitle>Edit Fertilizer Usage</DialogTitle>
+                          </DialogHeader>
+                          <form onSubmit={handleEditFertilizer} className="space-y-4">
+                            <div>
+                              <Label>Farm</Label>
+                              <select 
+                                className="w-full p-2 border rounded"
+                                value={newFertilizer.farmId}
+                                onChange={(e) => setNewFertilizer({...newFertilizer, farmId: e.target.value})}
+                                required
+                              >
+                                <option value="">Select Farm</option>
+                                {farms.map(farm => (
+                                  <option key={farm.id} value={farm.id}>{farm.name}</option>
+                                ))}
+                              </select>
+                            </div>
+                            <div>
+                              <Label>Type</Label>
+                              <Input 
+                                value={newFertilizer.type}
+                                onChange={(e) => setNewFertilizer({...newFertilizer, type: e.target.value})}
+                                required
+                                className="border rounded px-2 py-1"
+                              />
+                            </div>
+                            <div>
+                              <Label>Amount ({units.symbol('fertilizer')})</Label>
+                              <Input 
+                                type="number"
+                                step="any"
+                                value={newFertilizer.amount}
+                                onChange={(e) => setNewFertilizer({...newFertilizer, amount: e.target.value})}
+                                required
+                                className="border rounded px-2 py-1"
+                              />
+                            </div>
+                            <div>
+                              <Label>Date</Label>
+                              <Input 
+                                type="date"
+                                value={newFertilizer.date}
+                                onChange={(e) => setNewFertilizer({...newFertilizer, date: e.target.value})}
+                                required
+                                className="border rounded px-2 py-1"
+                              />
+                            </div>
+                            <Button type="submit" className="w-full">Save Fertilizer Usage</Button>
+                          </form>
+                        </DialogContent>
+                      </Dialog>
+                    )}
+                    {entry.type === 'Harvest' && (
+                      <Dialog 
+                        open={isEditingHarvest} 
+                        onOpenChange={(open) => {
+                          if (!open) {
+                            setIsEditingHarvest(false);
+                            setEditingHarvest(null);
+                            setNewHarvest({ farmId: '', amount: '', date: '' });
+                          }
+                        }}
+                      >
+                        <DialogContent>
+                          <DialogHeader>
+                            <DialogTitle>Edit Harvest</DialogTitle>
+                          </DialogHeader>
+                          <form onSubmit={handleEditHarvest} className="space-y-4">
+                            <div>
+                              <Label>Farm</Label>
+                              <select 
+                                className="w-full p-2 border rounded"
+                                value={newHarvest.farmId}
+                                onChange={(e) => setNewHarvest({...newHarvest, farmId: e.target.value})}
+                                required
+                              >
+                                <option value="">Select Farm</option>
+                                {farms.map(farm => (
+                                  <option key={farm.id} value={farm.id}>{farm.name}</option>
+                                ))}
+                              </select>
+                            </div>
+                            <div>
+                              <Label>Amount ({harvestSettingsFor(newHarvest.farmId).harvestUnit})</Label>
+                              <Input 
+                                type="number"
+                                step="any"
+                                value={newHarvest.amount}
+                                onChange={(e) => setNewHarvest({...newHarvest, amount: e.target.value})}
+                                required
+                                className="border rounded px-2 py-1"
+                              />
+                            </div>
+                            <div>
+                              <Label>Date</Label>
+                              <Input 
+                                type="date"
+                                value={newHarvest.date}
+                                onChange={(e) => setNewHarvest({...newHarvest, date: e.target.value})}
+                                required
+                                className="border rounded px-2 py-1"
+                              />
+                            </div>
+                            <Button type="submit" className="w-full">Save Harvest</Button>
+                          </form>
+                        </DialogContent>
+                      </Dialog>
+                    )}
+                    {entry.type === 'Crop Rotation' && (
+                      <Dialog 
+                        open={isAddingRotation} 
+                        onOpenChange={(open) => {
+                          if (!open) {
+                            setIsAddingRotation(false);
+                            setEditingRotation(null);
+                            setNewRotation({ farmId: '', crop: '', startDate: '', endDate: '' });
+                          }
+                        }}
+                      >
+                        <DialogContent>
+                          <DialogHeader>
+                            <DialogTitle>Edit Crop Rotation</DialogTitle>
+                          </DialogHeader>
+                          <form onSubmit={handleAddRotation} className="space-y-4">
+                            <div>
+                              <Label>Farm</Label>
+                              <select 
+                                className="w-full p-2 border rounded"
+                                value={newRotation.farmId}
+                                onChange={(e) => setNewRotation({...newRotation, farmId: e.target.value})}
+                                required
+                              >
+                                <option value="">Select Farm</option>
+                                {farms.map(farm => (
+                                  <option key={farm.id} value={farm.id}>{farm.name}</option>
+                                ))}
+                              </select>
+                            </div>
+                            <div>
+                              <Label>Crop</Label>
+                              <Input 
+                                value={newRotation.crop}
+                                onChange={(e) => setNewRotation({...newRotation, crop: e.target.value})}
+                                required
+                                className="border rounded px-2 py-1"
+                              />
+                            </div>
+                            <div>
+                              <Label>Start Date</Label>
+                              <Input 
+                                type="date"
+                                value={newRotation.startDate}
+                                onChange={(e) => setNewRotation({...newRotation, startDate: e.target.value})}
+                                required
+                                className="border rounded px-2 py-1"
+                              />
+                            </div>
+                            <div>
+                              <Label>End Date</Label>
+                              <Input 
+                                type="date"
+                                value={newRotation.endDate}
+                                onChange={(e) => setNewRotation({...newRotation, endDate: e.target.value})}
+                                required
+                                className="border rounded px-2 py-1"
+                              />
+                            </div>
+                            <Button type="submit" className="w-full">Save Crop Rotation</Button>
+                          </form>
+                        </DialogContent>
+                      </Dialog>
+                    )}
+                  </div>
+                ))}
+                {/* A single edit dialog serves every pesticide entry */}
+                <Dialog 
+                  open={isAddingPesticide} 
+                  onOpenChange={(open) => {
+                    if (!open) {
+                      setIsAddingPesticide(false);
+                      setEditingPesticide(null);
+                      setNewPesticide({ farmId: '', type: '', amount: '', toxicity: String(DEFAULT_TOXICITY), date: '' });
+                    }
+                  }}
+                >
+                  <DialogContent>
+                    <DialogHeader>
+                      <DialogTitle>Edit Pesticide Application</DialogTitle>
+                    </DialogHeader>
+                    <form onSubmit={handleAddPesticide} className="space-y-4">
+                      <div>
+                        <Label>Farm</Label>
+                        <select 
+                          className="w-full p-2 border rounded"
+                          value={newPesticide.farmId}
+                          onChange={(e) => setNewPesticide({...newPesticide, farmId: e.target.value})}
+                          required
+                        >
+                          <option value="">Select Farm</option>
+                          {farms.map(farm => (
+                            <option key={farm.id} value={farm.id}>{farm.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <Label>Product</Label>
+                        <Input 
+                          value={newPesticide.type}
+                          onChange={(e) => setNewPesticide({...newPesticide, type: e.target.value})}
+                          required
+                          className="border rounded px-2 py-1"
+                        />
+                      </div>
+                      <div>
+                        <Label>Amount ({units.symbol('pesticide')})</Label>
+                        <Input 
+                          type="number"
+                          step="any"
+                          value={newPesticide.amount}
+                          onChange={(e) => setNewPesticide({...newPesticide, amount: e.target.value})}
+                          required
+                          className="border rounded px-2 py-1"
+                        />
+                      </div>
+                      <div>
+                        <Label>Toxicity</Label>
+                        <select 
+                          className="w-full p-2 border rounded"
+                          value={newPesticide.toxicity}
+                          onChange={(e) => setNewPesticide({...newPesticide, toxicity: e.target.value})}
+                        >
+                          {!TOXICITY_CLASSES.some(({ toxicity }) => String(toxicity) === newPesticide.toxicity) && (
+                            <option value={newPesticide.toxicity}>Toxicity {newPesticide.toxicity}</option>
+                          )}
+                          {TOXICITY_CLASSES.map(({ toxicity, label }) => (
+                            <option key={toxicity} value={toxicity}>{label}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <Label>Date</Label>
+                        <Input 
+                          type="date"
+                          value={newPesticide.date}
+                          onChange={(e) => setNewPesticide({...newPesticide, date: e.target.value})}
+                          required
+                          className="border rounded px-2 py-1"
+                        />
+                      </div>
+                      <Button type="submit" className="w-full">Save Pesticide Application</Button>
+                    </form>
+                  </DialogContent>
+                </Dialog>
               </div>
-            ))}
-          </div>
+            </TabsContent>
+            <TabsContent value="audit">
+              <AuditLogView key={workspaceId} />
+            </TabsContent>
+          </Tabs>
         </CardContent>
       </Card>
     );
@@ -1892,7 +2191,7 @@ const DefaultComponent: React.FC = () => {
       title: '',
       start: new Date(),
       end: new Date(),
-      farmId: 0,
+      farmId: '',
       type: 'planting',
       notes: ''
     });
@@ -1909,10 +2208,10 @@ const DefaultComponent: React.FC = () => {
       1
     ).getDay();
 
-    const handleAddEvent = (e: React.FormEvent) => {
+    const handleAddEvent = async (e: React.FormEvent) => {
       e.preventDefault();
-      setCropPlanEvents([...cropPlanEvents, {
-        id: Date.now(),
+      await farmActions.addCropPlanEvents([{
+        id: createId(),
         ...newEvent,
         type: newEvent.type as 'planting' | 'fertilizing' | 'harvesting' | 'other'
       }]);
@@ -1921,7 +2220,7 @@ const DefaultComponent: React.FC = () => {
         title: '',
         start: new Date(),
         end: new Date(),
-        farmId: 0,
+        farmId: '',
         type: 'planting',
         notes: ''
       });
@@ -1945,7 +2244,7 @@ const DefaultComponent: React.FC = () => {
 
     const handleExportPlan = () => {
       const exportData = {
-        version: "1.0",
+        version: CURRENT_SCHEMA_VERSION,
         exportDate: new Date().toISOString(),
         events: cropPlanEvents
       };
@@ -1966,7 +2265,7 @@ const DefaultComponent: React.FC = () => {
       if (!file) return;
   
       const reader = new FileReader();
-      reader.onload = (e: ProgressEvent<FileReader>) => {
+      reader.onload = async (e: ProgressEvent<FileReader>) => {
         try {
           const importedData = JSON.parse(e.target?.result as string);
           
@@ -1975,27 +2274,37 @@ const DefaultComponent: React.FC = () => {
             throw new Error('Invalid file format');
           }
   
-          // Convert date strings back to Date objects
-          const processedEvents = importedData.events.map((event: any) => ({
-            ...event,
-            start: new Date(event.start),
-            end: new Date(event.end)
-          }));
+          // Plans exported before versioning have no version field
+          const { data: migratedPlan } = migrateData<{ cropPlanEvents: unknown }>({
+            version: importedData.version || '1.0',
+            cropPlanEvents: importedData.events
+          });
+
+          const validation = validateWith(cropPlanEventsSchema, migratedPlan.cropPlanEvents);
+          if (!validation.success) {
+            setImportNotification({
+              success: false,
+              message: 'The crop plan contains invalid events. Nothing was imported.',
+              issues: validation.issues.map(issue => ({ ...issue, path: `events${issue.path}` }))
+            });
+            return;
+          }
+          const processedEvents = validation.data;
   
           // Merge with existing events, avoid duplicates by checking IDs
           const existingIds = new Set(cropPlanEvents.map(e => e.id));
-          const newEvents = processedEvents.filter((e: CropPlanEvent) => !existingIds.has(e.id));
+          const newEvents = processedEvents.filter(e => !existingIds.has(e.id));
           
-          setCropPlanEvents([...cropPlanEvents, ...newEvents]);
+          await farmActions.addCropPlanEvents(newEvents);
         } catch (error) {
-          alert('Error importing file: Invalid format');
+          alert(`Error importing file: ${error instanceof Error ? error.message : 'Invalid format'}`);
         }
       };
       reader.readAsText(file);
     };
 
-    const handleDeleteEvent = (eventId: number) => {
-      setConfirmDelete({ id: 0, type: 'cropEvent', eventId });
+    const handleDeleteEvent = (eventId: string) => {
+      setConfirmDelete({ id: eventId, type: 'cropEvent' });
     };
 
     return (
@@ -2115,7 +2424,7 @@ const DefaultComponent: React.FC = () => {
                 <select
                   className="w-full p-2 border rounded"
                   value={newEvent.farmId}
-                  onChange={(e) => setNewEvent({ ...newEvent, farmId: Number(e.target.value) })}
+                  onChange={(e) => setNewEvent({ ...newEvent, farmId: e.target.value })}
                   required
                 >
                   <option value="">Select Farm</option>
@@ -2292,61 +2601,64 @@ const DefaultComponent: React.FC = () => {
         </CardHeader>
         <CardContent>
           <CropFilter />
-          {getFilteredFarms().length > 0 ? (
+          {filteredFarms.length > 0 ? (
             <div className="space-y-8">
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div className="p-4 bg-blue-50 rounded-lg">
                   <Droplet className="h-6 w-6 text-blue-500 mb-2" />
                   <p className="text-sm text-gray-500">Total Water Usage</p>
                   <p className="text-2xl font-bold text-blue-600">
-                    {getFilteredFarms()
-                      .reduce(
-                        (total, farm) =>
-                          total +
-                          farm.waterHistory.reduce(
-                            (sum, record) => sum + record.amount,
-                            0
-                          ),
-                        0
-                      )
-                      .toLocaleString()}{" "}
-                    gal
+                    {units.format(
+                      'water',
+                      filteredFarms
+                        .reduce(
+                          (total, farm) =>
+                            total +
+                            farm.waterHistory.reduce(
+                              (sum, record) => sum + record.amount,
+                              0
+                            ),
+                          0
+                        )
+                    )}
                   </p>
                 </div>
                 <div className="p-4 bg-green-50 rounded-lg">
                   <Leaf className="h-6 w-6 text-green-500 mb-2" />
                   <p className="text-sm text-gray-500">Total Fertilizer Used</p>
                   <p className="text-2xl font-bold text-green-600">
-                    {getFilteredFarms()
-                      .reduce(
-                        (total, farm) =>
-                          total +
-                          farm.fertilizerHistory.reduce(
-                            (sum, record) => sum + record.amount,
-                            0
-                          ),
-                        0
-                      )
-                      .toLocaleString()}{" "}
-                    lbs
+                    {units.format(
+                      'fertilizer',
+                      filteredFarms
+                        .reduce(
+                          (total, farm) =>
+                            total +
+                            farm.fertilizerHistory.reduce(
+                              (sum, record) => sum + record.amount,
+                              0
+                            ),
+                          0
+                        )
+                    )}
                   </p>
                 </div>
                 <div className="p-4 bg-purple-50 rounded-lg">
                   <LayoutDashboard className="h-6 w-6 text-purple-500 mb-2" />
                   <p className="text-sm text-gray-500">Total Harvest</p>
                   <p className="text-2xl font-bold text-purple-600">
-                    {getFilteredFarms()
-                      .reduce(
-                        (total, farm) =>
-                          total +
-                          farm.harvestHistory.reduce(
-                            (sum, record) => sum + record.amount,
-                            0
-                          ),
-                        0
-                      )
-                      .toLocaleString()}{" "}
-                    bu
+                    {units.format(
+                      'harvest',
+                      filteredFarms
+                        .reduce(
+                          (total, farm) =>
+                            total +
+                            farm.harvestHistory.reduce(
+                              (sum, record) => sum + record.weight,
+                              0
+                            ),
+                          0
+                        )
+                    )}
                   </p>
                 </div>
               </div>
@@ -2354,13 +2666,15 @@ const DefaultComponent: React.FC = () => {
               <div className="h-[300px]">
                 <ResponsiveContainer width="100%" height="100%">
                   <BarChart
-                    data={getFilteredFarms().flatMap((farm) =>
-                      farm.harvestHistory.map((harvest) => ({
+                    data={filteredFarms.flatMap((farm) => {
+                      const hectares = farmHectares(farm);
+                      if (!hectares) return [];
+                      return farm.harvestHistory.map((harvest) => ({
                         farm: farm.name,
-                        amount: harvest.amount,
+                        yield: units.toDisplay('harvest', harvest.weight) / units.toDisplay('area', hectares),
                         date: new Date(harvest.date).toLocaleDateString(),
-                      }))
-                    )}
+                      }));
+                    })}
                   >
                     <CartesianGrid strokeDasharray="3 3" />
                     <XAxis dataKey="date" />
@@ -2368,13 +2682,44 @@ const DefaultComponent: React.FC = () => {
                     <Tooltip />
                     <Legend />
                     <Bar
-                      dataKey="amount"
+                      dataKey="yield"
                       fill="#8884d8"
-                      name="Harvest Amount (bu)"
+                      name={`Yield (${units.symbol('harvest')}/${units.symbol('area')})`}
                     />
                   </BarChart>
                 </ResponsiveContainer>
               </div>
+
+              <div>
+                <h3 className="font-medium mb-2">Average Yield by Farm</h3>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-1 pr-2">Farm</th>
+                      <th className="py-1 pr-2">Crop</th>
+                      <th className="py-1 pr-2">Harvests</th>
+                      <th className="py-1">Yield</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {filteredFarms.map(farm => {
+                      const farmYield = averageYieldPerHectare(farm);
+                      return (
+                        <tr key={farm.id} className="border-b last:border-0">
+                          <td className="py-1 pr-2">{farm.name}</td>
+                          <td className="py-1 pr-2">{farm.crop}</td>
+                          <td className="py-1 pr-2">{farm.harvestHistory.length}</td>
+                          <td className="py-1">
+                            {farmYield !== null
+                              ? units.formatYield(farmYield, 1)
+                              : farm.harvestHistory.length > 0 ? 'Set a farm size to compare' : '-'}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
             </div>
           ) : (
             <div className="text-center p-8">
@@ -2397,34 +2742,62 @@ const DefaultComponent: React.FC = () => {
         <div className="mb-8">
           <div className="flex justify-between items-center mb-4">
             <h1 className="text-3xl font-bold">Farm Management Dashboard</h1>
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <Button variant="outline" size="icon">
-                  <Settings className="h-4 w-4" />
-                </Button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent align="end" className="w-56">
-                <DropdownMenuItem onClick={handleExportData}>
-                  <Download className="mr-2 h-4 w-4" />
-                  <span>Export Data</span>
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => document.getElementById('importDataFile')?.click()}>
-                  <Upload className="mr-2 h-4 w-4" />
-                  <span>Import Data</span>
-                  <input
-                    type="file"
-                    id="importDataFile"
-                    className="hidden"
-                    accept=".json"
-                    onChange={handleImportData}
-                  />
-                </DropdownMenuItem>
-                <DropdownMenuItem onClick={handleStartWalkthrough}>
-                  <Info className="mr-2 h-4 w-4" />
-                  <span>Start Tutorial</span>
-                </DropdownMenuItem>
-              </DropdownMenuContent>
-            </DropdownMenu>
+            <div className="flex gap-2">
+              <Button variant="outline" size="icon" title="Undo (Ctrl+Z)" disabled={!canUndo} onClick={farmActions.undo}>
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="icon" title="Redo (Ctrl+Shift+Z)" disabled={!canRedo} onClick={farmActions.redo}>
+                <Redo2 className="h-4 w-4" />
+              </Button>
+              <WorkspaceSwitcher />
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="icon">
+                    <Settings className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-56">
+                  <DropdownMenuItem onClick={handleExportData}>
+                    <Download className="mr-2 h-4 w-4" />
+                    <span>Export Data</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => document.getElementById('importDataFile')?.click()}>
+                    <Upload className="mr-2 h-4 w-4" />
+                    <span>Import Data</span>
+                    <input
+                      type="file"
+                      id="importDataFile"
+                      className="hidden"
+                      accept=".json"
+                      onChange={handleImportData}
+                    />
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setIsUnitSettingsOpen(true)}>
+                    <Ruler className="mr-2 h-4 w-4" />
+                    <span>Units</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setIsScoringSettingsOpen(true)}>
+                    <SlidersHorizontal className="mr-2 h-4 w-4" />
+                    <span>Sustainability Scoring</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleStartWalkthrough}>
+                    <Info className="mr-2 h-4 w-4" />
+                    <span>Start Tutorial</span>
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <UnitSettingsDialog open={isUnitSettingsOpen} onOpenChange={setIsUnitSettingsOpen} />
+              <ScoringSettingsDialog
+                open={isScoringSettingsOpen}
+                onOpenChange={setIsScoringSettingsOpen}
+                overallScore={sustainabilityMetrics?.overallScore ?? null}
+              />
+              <ScoreBreakdownDialog
+                metric={breakdownMetric}
+                farmScores={farmScores}
+                onClose={() => setBreakdownMetric(null)}
+              />
+            </div>
           </div>
 
           <Tabs defaultValue="overview" className="space-y-4" value={activeTab} onValueChange={setActiveTab}>
@@ -2476,9 +2849,10 @@ const DefaultComponent: React.FC = () => {
                               </select>
                             </div>
                             <div>
-                              <Label>Amount (gallons)</Label>
+                              <Label>Amount ({units.symbol('water')})</Label>
                               <Input 
                                 type="number"
+                                step="any"
                                 value={newWaterUsage.amount}
                                 onChange={(e) => setNewWaterUsage({...newWaterUsage, amount: e.target.value})}
                                 required
@@ -2536,9 +2910,10 @@ const DefaultComponent: React.FC = () => {
                               />
                             </div>
                             <div>
-                              <Label>Amount (lbs)</Label>
+                              <Label>Amount ({units.symbol('fertilizer')})</Label>
                               <Input 
                                 type="number"
+                                step="any"
                                 value={newFertilizer.amount}
                                 onChange={(e) => setNewFertilizer({...newFertilizer, amount: e.target.value})}
                                 required
@@ -2587,9 +2962,10 @@ const DefaultComponent: React.FC = () => {
                               </select>
                             </div>
                             <div>
-                              <Label>Amount (bushels)</Label>
+                              <Label>Amount ({harvestSettingsFor(newHarvest.farmId).harvestUnit})</Label>
                               <Input 
                                 type="number"
+                                step="any"
                                 value={newHarvest.amount}
                                 onChange={(e) => setNewHarvest({...newHarvest, amount: e.target.value})}
                                 required
@@ -2670,10 +3046,94 @@ const DefaultComponent: React.FC = () => {
                           </form>
                         </DialogContent>
                       </Dialog>
+
+                      <Dialog open={isAddingPesticide} onOpenChange={setIsAddingPesticide}>
+                        <DialogTrigger asChild>
+                          <Button className="w-full bg-red-500 hover:bg-red-600">
+                            <SprayCan className="h-4 w-4 mr-2" />
+                            Record Pesticide Application
+                          </Button>
+                        </DialogTrigger>
+                        <DialogContent>
+                          <DialogHeader>
+                            <DialogTitle>Record Pesticide Application</DialogTitle>
+                          </DialogHeader>
+                          <form onSubmit={handleAddPesticide} className="space-y-4">
+                            <div>
+                              <Label>Farm</Label>
+                              <select 
+                                className="w-full p-2 border rounded"
+                                value={newPesticide.farmId}
+                                onChange={(e) => setNewPesticide({...newPesticide, farmId: e.target.value})}
+                                required
+                              >
+                                <option value="">Select Farm</option>
+                                {farms.map(farm => (
+                                  <option key={farm.id} value={farm.id}>{farm.name}</option>
+                                ))}
+                              </select>
+                            </div>
+                            <div>
+                              <Label>Product</Label>
+                              <Input 
+                                value={newPesticide.type}
+                                onChange={(e) => setNewPesticide({...newPesticide, type: e.target.value})}
+                                required
+                                className="border rounded px-2 py-1"
+                              />
+                            </div>
+                            <div>
+                              <Label>Amount ({units.symbol('pesticide')})</Label>
+                              <Input 
+                                type="number"
+                                step="any"
+                                value={newPesticide.amount}
+                                onChange={(e) => setNewPesticide({...newPesticide, amount: e.target.value})}
+                                required
+                                className="border rounded px-2 py-1"
+                              />
+                            </div>
+                            <div>
+                              <Label>Toxicity</Label>
+                              <select 
+                                className="w-full p-2 border rounded"
+                                value={newPesticide.toxicity}
+                                onChange={(e) => setNewPesticide({...newPesticide, toxicity: e.target.value})}
+                              >
+                                {!TOXICITY_CLASSES.some(({ toxicity }) => String(toxicity) === newPesticide.toxicity) && (
+                                  <option value={newPesticide.toxicity}>Toxicity {newPesticide.toxicity}</option>
+                                )}
+                                {TOXICITY_CLASSES.map(({ toxicity, label }) => (
+                                  <option key={toxicity} value={toxicity}>{label}</option>
+                                ))}
+                              </select>
+                            </div>
+                            <div>
+                              <Label>Date</Label>
+                              <Input 
+                                type="date"
+                                value={newPesticide.date}
+                                onChange={(e) => setNewPesticide({...newPesticide, date: e.target.value})}
+                                required
+                                className="border rounded px-2 py-1"
+                              />
+                            </div>
+                            <Button type="submit" className="w-full">Save Pesticide Application</Button>
+                          </form>
+                        </DialogContent>
+                      </Dialog>
                     </div>
                   </CardContent>
                 </Card>
                 <SustainabilityScoreCard />
+                <FarmScorecards
+                  farmScores={farmScores}
+                  averages={sustainabilityMetrics}
+                  scoring={scoring}
+                  onShowHistory={showFarmHistory}
+                  onShowBreakdown={setBreakdownMetric}
+                />
+                <WeatherAlerts forecastFor={forecastForFarm} />
                 <WeatherPreview />
                 <UpcomingCropPlan />
                 <FarmIssues />
@@ -2698,7 +3158,7 @@ const DefaultComponent: React.FC = () => {
                           <BarChart data={farms.flatMap(farm => 
                             farm.waterHistory.map(usage => ({
                               farm: farm.name,
-                              amount: usage.amount,
+                              amount: units.toDisplay('water', usage.amount),
                               date: new Date(usage.date).toLocaleDateString()
                             }))
                           )}>
@@ -2707,7 +3167,7 @@ const DefaultComponent: React.FC = () => {
                             <YAxis />
                             <Tooltip />
                             <Legend />
-                            <Bar dataKey="amount" fill="#3b82f6" name="Water Usage (gal)" />
+                            <Bar dataKey="amount" fill="#3b82f6" name={`Water Usage (${units.symbol('water')})`} />
                           </BarChart>
                         </ResponsiveContainer>
                       ) : (
@@ -2718,6 +3178,8 @@ const DefaultComponent: React.FC = () => {
                     </div>
                   </CardContent>
                 </Card>
+                <IrrigationScheduleCard scheduleFor={irrigationScheduleForFarm} />
+                <IrrigationBalanceCard balanceFor={waterBalanceForFarm} />
               </div>
             </TabsContent>
 
@@ -2747,9 +3209,10 @@ const DefaultComponent: React.FC = () => {
                         />
                       </div>
                       <div>
-                        <Label>Size (acres)</Label>
+                        <Label>Size ({units.symbol('area')})</Label>
                         <Input
                           type="number"
+                          step="any"
                           value={newFarm.size}
                           onChange={(e) => setNewFarm({ ...newFarm, size: e.target.value })}
                           required
@@ -2765,11 +3228,31 @@ const DefaultComponent: React.FC = () => {
                           className="border rounded px-2 py-1"
                         />
                       </div>
+                      <div>
+                        <Label>Soil Type</Label>
+                        <select
+                          className="w-full p-2 border rounded"
+                          value={newFarm.soilType}
+                          onChange={(e) => setNewFarm({ ...newFarm, soilType: e.target.value })}
+                        >
+                          <option value="">Not specified</option>
+                          {Object.entries(SOIL_TYPES).map(([key, soil]) => (
+                            <option key={key} value={key}>{soil.label}</option>
+                          ))}
+                          {newFarm.soilType && !SOIL_TYPES[newFarm.soilType] && (
+                            <option value={newFarm.soilType}>{newFarm.soilType}</option>
+                          )}
+                        </select>
+                      </div>
+                      <FarmLocationInput
+                        value={newFarm}
+                        onChange={(location) => setNewFarm({ ...newFarm, ...location })}
+                      />
                       <div>
                         <Label>Crop Rotation History</Label>
                         <div className="space-y-2">
                           {newFarm.rotationHistory.map((rotation, index) => (
-                            <div key={index} className="flex gap-2 items-center">
+                            <div key={rotation.id} className="flex gap-2 items-center">
                               <Input
                                 placeholder="Crop"
                                 value={rotation.crop}
@@ -2820,7 +3303,7 @@ const DefaultComponent: React.FC = () => {
                                 ...newFarm,
                                 rotationHistory: [
                                   ...newFarm.rotationHistory,
-                                  { crop: '', startDate: '', endDate: '' }
+                                  { id: createId(), crop: '', startDate: '', endDate: '' }
                                 ]
                               });
                             }}
@@ -2852,9 +3335,10 @@ const DefaultComponent: React.FC = () => {
                         />
                       </div>
                       <div>
-                        <Label>Size (acres)</Label>
+                        <Label>Size ({units.symbol('area')})</Label>
                         <Input
                           type="number"
+                          step="any"
                           value={newFarm.size}
                           onChange={(e) => setNewFarm({ ...newFarm, size: e.target.value })}
                           required
@@ -2870,6 +3354,26 @@ const DefaultComponent: React.FC = () => {
                           className="border rounded px-2 py-1"
                         />
                       </div>
+                      <div>
+                        <Label>Soil Type</Label>
+                        <select
+                          className="w-full p-2 border rounded"
+                          value={newFarm.soilType}
+                          onChange={(e) => setNewFarm({ ...newFarm, soilType: e.target.value })}
+                        >
+                          <option value="">Not specified</option>
+                          {Object.entries(SOIL_TYPES).map(([key, soil]) => (
+                            <option key={key} value={key}>{soil.label}</option>
+                          ))}
+                          {newFarm.soilType && !SOIL_TYPES[newFarm.soilType] && (
+                            <option value={newFarm.soilType}>{newFarm.soilType}</option>
+                          )}
+                        </select>
+                      </div>
+                      <FarmLocationInput
+                        value={newFarm}
+                        onChange={(location) => setNewFarm({ ...newFarm, ...location })}
+                      />
                       <Button type="submit" className="w-full">
                         Save Changes
                       </Button>
@@ -2890,14 +3394,17 @@ const DefaultComponent: React.FC = () => {
                         <CardContent>
                           <div className="space-y-2">
                             <p className="text-gray-500">Current Crop: {farm.crop}</p>
-                            <p className="text-gray-500">Size: {farm.size.toLocaleString()} acres</p>
+                            <p className="text-gray-500">
+                              Size: {isNaN(parseFloat(farm.size)) ? farm.size : units.format('area', parseFloat(farm.size))}
+                            </p>
+                            <GddProgress farm={farm} weather={weatherForFarm(farm)} />
                             
                             {farm.rotationHistory && farm.rotationHistory.length > 0 && (
                               <div className="mt-4">
                                 <p className="font-medium mb-2">Crop Rotation History</p>
                                 <div className="space-y-1">
-                                  {farm.rotationHistory.map((rotation, index) => (
-                                    <div key={index} className="text-sm text-gray-600">
+                                  {farm.rotationHistory.map((rotation) => (
+                                    <div key={rotation.id} className="text-sm text-gray-600">
                                       {rotation.crop}: {new Date(rotation.startDate).toLocaleDateString()} - {new Date(rotation.endDate).toLocaleDateString()}
                                     </div>
                                   ))}
@@ -2960,8 +3467,13 @@ const DefaultComponent: React.FC = () => {
                                   setEditingFarm(farm);
                                   setNewFarm({ 
                                     name: farm.name, 
-                                    size: farm.size, 
+                                    size: farm.size && !isNaN(parseFloat(farm.size))
+                                      ? units.toInput('area', parseFloat(farm.size))
+                                      : farm.size,
                                     crop: farm.crop,
+                                    latitude: farm.latitude?.toString() ?? '',
+                                    longitude: farm.longitude?.toString() ?? '',
+                                    soilType: farm.soilType ?? '',
                                     rotationHistory: farm.rotationHistory || []
                                   });
                                   setIsEditingFarm(true);
@@ -2989,11 +3501,15 @@ const DefaultComponent: React.FC = () => {
                     </div>
                   )}
                 </div>
+                <CropSettingsCard />
               </div>
             </TabsContent>
 
             <TabsContent value="reports">
-              <Reports />
+              <div className="space-y-4">
+                <Reports />
+                <ScoreTrendCard scoresAsOf={scoresAsOf} />
+              </div>
             </TabsContent>
 
             <TabsContent value="instructions">
@@ -3024,6 +3540,16 @@ const DefaultComponent: React.FC = () => {
         </DialogContent>
       </Dialog>
 
+      {pendingImport && (
+        <ImportWizard
+          open
+          current={farmData}
+          incoming={pendingImport.data}
+          onCancel={() => setPendingImport(null)}
+          onConfirm={handleConfirmImport}
+        />
+      )}
+
       <Dialog 
         open={!!importNotification} 
         onOpenChange={() => setImportNotification(null)}
@@ -3036,6 +3562,16 @@ const DefaultComponent: React.FC = () => {
           </DialogHeader>
           <div className="space-y-4">
             <p>{importNotification?.message}</p>
+            {importNotification?.issues && importNotification.issues.length > 0 && (
+              <div className="max-h-64 overflow-y-auto border rounded divide-y text-sm">
+                {importNotification.issues.map((issue, index) => (
+                  <div key={index} className="p-2">
+                    <p className="font-mono text-xs text-gray-600">{issue.path}</p>
+                    <p className="text-red-600">{issue.message}</p>
+                  </div>
+                ))}
+              </div>
+            )}
             <Button 
               variant="outline" 
               onClick={() => setImportNotification(null)} 
@@ -3050,25 +3586,4 @@ const DefaultComponent: React.FC = () => {
   );
 };
 
-// Add this type definition before the DefaultComponent
-type AnyHistoryEntry = {
-  type: 'Water Usage' | 'Fertilizer Usage' | 'Harvest' | 'Crop Rotation';
-  date: Date;
-  farm: string;
-  amount?: string;
-  icon: React.ReactNode;
-  color: string;
-  farmId: number;
-  usage?: WaterUsage;
-  fertilizer?: any;
-  harvest?: any;
-  rotation?: {
-    crop: string;
-    startDate: string;
-    endDate: string;
-  };
-  crop?: string;
-  endDate?: Date;
-};
-
 export default DefaultComponent;
@@ -0,0 +1,213 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Download } from 'lucide-react';
+import { isSameRecord } from "@/lib/importMerge";
+import { setAuditActorName, useAuditActor } from "@/hooks/useAuditActor";
+import {
+  auditActorLabel,
+  auditRepository,
+  auditLogToCsv,
+  subscribeToAuditLog,
+  AuditEntry,
+  AuditEntity,
+  AuditOperation,
+  AUDIT_ENTITY_LABELS,
+} from "@/lib/auditLog";
+
+const OPERATION_STYLES: Record<AuditOperation, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const downloadFile = (content: string, type: string, filename: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const AuditEntryDetails: React.FC<{ entry: AuditEntry }> = ({ entry }) => {
+  const before = entry.before || {};
+  const after = entry.after || {};
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(field => field !== 'id');
+
+  return (
+    <table className="w-full text-sm mt-2">
+      <thead>
+        <tr className="text-left text-gray-500">
+          <th className="font-normal py-1">Field</th>
+          <th className="font-normal py-1">Before</th>
+          <th className="font-normal py-1">After</th>
+        </tr>
+      </thead>
+      <tbody>
+        {fields.map(field => (
+          <tr
+            key={field}
+            className={entry.operation === 'update' && !isSameRecord(before[field], after[field]) ? 'bg-yellow-50' : ''}
+          >
+            <td className="py-1 pr-2 text-gray-600">{field}</td>
+            <td className="py-1 pr-2">{formatValue(before[field])}</td>
+            <td className="py-1">{formatValue(after[field])}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export const AuditLogView: React.FC = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [entity, setEntity] = useState<AuditEntity | 'all'>('all');
+  const [operation, setOperation] = useState<AuditOperation | 'all'>('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const actor = useAuditActor();
+
+  useEffect(() => {
+    const load = () => auditRepository.list()
+      .then(setEntries)
+      .catch(error => console.error('Error loading audit log:', error));
+    load();
+    return subscribeToAuditLog(load);
+  }, []);
+
+  const filteredEntries = useMemo(() => entries.filter(entry => {
+    const day = entry.timestamp.split('T')[0];
+    return (entity === 'all' || entry.entity === entity) &&
+      (operation === 'all' || entry.operation === operation) &&
+      (!fromDate || day >= fromDate) &&
+      (!toDate || day <= toDate) &&
+      (!searchTerm || [entry.label, auditActorLabel(entry)].some(text => text.toLowerCase().includes(searchTerm.toLowerCase())));
+  }), [entries, entity, operation, fromDate, toDate, searchTerm]);
+
+  const handleExport = (format: 'json' | 'csv') => {
+    const date = new Date().toISOString().split('T')[0];
+    if (format === 'json') {
+      downloadFile(JSON.stringify(filteredEntries, null, 2), 'application/json', `audit-log-${date}.json`);
+    } else {
+      downloadFile(auditLogToCsv(filteredEntries), 'text/csv', `audit-log-${date}.csv`);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+        <Input
+          placeholder="Search changes..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="border rounded px-2 py-1 col-span-2 md:col-span-1"
+        />
+        <select
+          className="border rounded px-2 py-1"
+          value={entity}
+          onChange={(e) => setEntity(e.target.value as AuditEntity | 'all')}
+        >
+          <option value="all">All records</option>
+          {Object.entries(AUDIT_ENTITY_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <select
+          className="border rounded px-2 py-1"
+          value={operation}
+          onChange={(e) => setOperation(e.target.value as AuditOperation | 'all')}
+        >
+          <option value="all">All changes</option>
+          <option value="create">Created</option>
+          <option value="update">Updated</option>
+          <option value="delete">Deleted</option>
+        </select>
+        <Input
+          type="date"
+          value={fromDate}
+          onChange={(e) => setFromDate(e.target.value)}
+          className="border rounded px-2 py-1"
+        />
+        <Input
+          type="date"
+          value={toDate}
+          onChange={(e) => setToDate(e.target.value)}
+          className="border rounded px-2 py-1"
+        />
+      </div>
+
+      <div className="flex items-center gap-2">
+        <label htmlFor="audit-actor-name" className="text-sm text-gray-500 whitespace-nowrap">
+          Record my changes as
+        </label>
+        <Input
+          id="audit-actor-name"
+          placeholder={`Device ${actor.deviceId.slice(0, 8)}`}
+          value={actor.name}
+          onChange={(e) => setAuditActorName(e.target.value)}
+          className="border rounded px-2 py-1 max-w-xs"
+        />
+      </div>
+
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-500">
+          {filteredEntries.length} of {entries.length} changes
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={filteredEntries.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleExport('json')} disabled={filteredEntries.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            JSON
+          </Button>
+        </div>
+      </div>
+
+      {filteredEntries.length === 0 ? (
+        <p className="text-center text-gray-500 p-8">No changes recorded yet.</p>
+      ) : (
+        filteredEntries.map(entry => (
+          <div key={entry.id} className="p-2 border rounded">
+            <div className="flex justify-between items-center gap-2">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className={OPERATION_STYLES[entry.operation]}>
+                  {entry.operation}
+                </Badge>
+                <span className="text-sm text-gray-500">{AUDIT_ENTITY_LABELS[entry.entity]}</span>
+                <span className="font-medium">{entry.label}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-gray-500">{auditActorLabel(entry)}</span>
+                <span className="text-sm text-gray-500">{new Date(entry.timestamp).toLocaleString()}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                >
+                  {expandedId === entry.id ? 'Hide' : 'Details'}
+                </Button>
+              </div>
+            </div>
+            {expandedId === entry.id && <AuditEntryDetails entry={entry} />}
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
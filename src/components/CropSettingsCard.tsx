@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { WEATHER_HAZARDS, cropSettings, findCrop, normalizeCropName } from "@/lib/crops";
+import { HAZARD_LABELS } from "@/lib/alerts";
+import type { WeatherHazard } from "@/types/farm";
+import { useFarmState, farmActions, selectCrops, selectFarms } from "@/hooks/useFarmState";
+import { useUnits } from "@/hooks/useUnits";
+
+interface CropRowProps {
+  name: string;
+}
+
+const CropRow: React.FC<CropRowProps> = ({ name }) => {
+  const crops = useFarmState(selectCrops);
+  const units = useUnits();
+  const saved = findCrop(crops, name);
+  const settings = cropSettings(crops, name);
+  const [harvestUnit, setHarvestUnit] = useState(settings.harvestUnit);
+  const [weight, setWeight] = useState(units.toInput('harvest', settings.kgPerUnit));
+  const [sensitivities, setSensitivities] = useState<WeatherHazard[]>(settings.sensitivities);
+  const [baseTemp, setBaseTemp] = useState(units.toInput('temperature', settings.baseTemp));
+  const [maturityGdd, setMaturityGdd] = useState(units.toInput('degreeDays', settings.maturityGdd));
+
+  const kgPerUnit = units.fromDisplay('harvest', parseFloat(weight));
+  const baseTempC = units.fromDisplay('temperature', parseFloat(baseTemp));
+  const targetGdd = units.fromDisplay('degreeDays', parseFloat(maturityGdd));
+  const isChanged = harvestUnit.trim() !== settings.harvestUnit
+    || Math.abs(kgPerUnit - settings.kgPerUnit) > 1e-9
+    || WEATHER_HAZARDS.some(hazard => sensitivities.includes(hazard) !== settings.sensitivities.includes(hazard))
+    || Math.abs(baseTempC - settings.baseTemp) > 1e-9
+    || Math.abs(targetGdd - settings.maturityGdd) > 1e-9;
+  const isValid = harvestUnit.trim() !== '' && kgPerUnit > 0 && !isNaN(baseTempC) && targetGdd > 0;
+
+  const toggleSensitivity = (hazard: WeatherHazard, checked: boolean) =>
+    setSensitivities(WEATHER_HAZARDS.filter(h => (h === hazard ? checked : sensitivities.includes(h))));
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    farmActions.saveCrop({
+      ...saved,
+      id: saved?.id,
+      name: saved?.name ?? name,
+      harvestUnit: harvestUnit.trim(),
+      kgPerUnit,
+      sensitivities,
+      baseTemp: baseTempC,
+      maturityGdd: targetGdd,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSave} className="grid grid-cols-[1fr_1fr_1fr_1fr_1fr_1.5fr_auto] gap-2 items-center">
+      <span className="font-medium truncate">{name}</span>
+      <Input
+        value={harvestUnit}
+        onChange={(e) => setHarvestUnit(e.target.value)}
+        placeholder="e.g. crate"
+        aria-label={`${name} harvest unit`}
+        className="border rounded px-2 py-1"
+      />
+      <Input
+        type="number"
+        step="any"
+        min={0}
+        value={weight}
+        onChange={(e) => setWeight(e.target.value)}
+        aria-label={`${name} weight per unit`}
+        className="border rounded px-2 py-1"
+      />
+      <Input
+        type="number"
+        step="any"
+        value={baseTemp}
+        onChange={(e) => setBaseTemp(e.target.value)}
+        aria-label={`${name} base temperature`}
+        className="border rounded px-2 py-1"
+      />
+      <Input
+        type="number"
+        step="any"
+        min={0}
+        value={maturityGdd}
+        onChange={(e) => setMaturityGdd(e.target.value)}
+        aria-label={`${name} growing degree days to maturity`}
+        className="border rounded px-2 py-1"
+      />
+      <div className="flex flex-wrap gap-x-3 text-sm">
+        {WEATHER_HAZARDS.map(hazard => (
+          <label key={hazard} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={sensitivities.includes(hazard)}
+              onChange={(e) => toggleSensitivity(hazard, e.target.checked)}
+            />
+            {HAZARD_LABELS[hazard]}
+          </label>
+        ))}
+      </div>
+      <Button type="submit" size="sm" disabled={!isChanged || !isValid}>Save</Button>
+    </form>
+  );
+};
+
+// Lets each crop define the unit its harvests are counted in, how much one unit weighs,
+// the heat units it needs to mature and which weather it needs protecting from
+export const CropSettingsCard: React.FC = () => {
+  const farms = useFarmState(selectFarms);
+  const crops = useFarmState(selectCrops);
+  const units = useUnits();
+
+  const names = new Map<string, string>();
+  [...farms.map(farm => farm.crop), ...crops.map(crop => crop.name)].forEach(name => {
+    if (name.trim() && !names.has(normalizeCropName(name))) names.set(normalizeCropName(name), name.trim());
+  });
+
+  if (names.size === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Crop Settings</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div className="grid grid-cols-[1fr_1fr_1fr_1fr_1fr_1.5fr_auto] gap-2 text-sm text-gray-500">
+          <span>Crop</span>
+          <span>Harvest unit</span>
+          <span>Weight per unit ({units.symbol('harvest')})</span>
+          <span>Base temperature ({units.symbol('temperature')})</span>
+          <span>To maturity ({units.symbol('degreeDays')})</span>
+          <span>Alert on</span>
+          <span className="w-14" />
+        </div>
+        {Array.from(names.entries()).map(([key, name]) => {
+          // Rows restart from the saved values when they change here, in another tab or by undo
+          const { harvestUnit, kgPerUnit, sensitivities, baseTemp, maturityGdd } = cropSettings(crops, name);
+          const symbols = [units.symbol('harvest'), units.symbol('temperature'), units.symbol('degreeDays')];
+          const rowKey = [key, harvestUnit, kgPerUnit, sensitivities.join(','), baseTemp, maturityGdd, ...symbols].join(':');
+          return <CropRow key={rowKey} name={name} />;
+        })}
+        <p className="text-sm text-gray-500">
+          New harvests are recorded in the crop's unit and weighed with this conversion, so yields can be compared per area.
+          Growing degree days count the heat above the base temperature from planting, and the crop is expected to mature once it reaches its target.
+          Weather alerts are only raised for the hazards a crop is marked as sensitive to.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
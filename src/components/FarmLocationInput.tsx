@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { LocateFixed } from 'lucide-react';
+
+export interface FarmLocationValue {
+  latitude: string;
+  longitude: string;
+}
+
+interface FarmLocationInputProps {
+  value: FarmLocationValue;
+  onChange: (value: FarmLocationValue) => void;
+}
+
+export const FarmLocationInput: React.FC<FarmLocationInputProps> = ({ value, onChange }) => {
+  const [isLocating, setIsLocating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUseCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      setError('Geolocation is not supported by this browser.');
+      return;
+    }
+    setIsLocating(true);
+    setError(null);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setIsLocating(false);
+        onChange({
+          latitude: position.coords.latitude.toFixed(4),
+          longitude: position.coords.longitude.toFixed(4),
+        });
+      },
+      (positionError) => {
+        setIsLocating(false);
+        setError(`Could not get your location: ${positionError.message}`);
+      }
+    );
+  };
+
+  return (
+    <div>
+      <Label>Location</Label>
+      <div className="flex gap-2">
+        <Input
+          type="number"
+          step="any"
+          min={-90}
+          max={90}
+          placeholder="Latitude"
+          value={value.latitude}
+          onChange={(e) => onChange({ ...value, latitude: e.target.value })}
+          className="border rounded px-2 py-1"
+        />
+        <Input
+          type="number"
+          step="any"
+          min={-180}
+          max={180}
+          placeholder="Longitude"
+          value={value.longitude}
+          onChange={(e) => onChange({ ...value, longitude: e.target.value })}
+          className="border rounded px-2 py-1"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          title="Use my current location"
+          onClick={handleUseCurrentLocation}
+          disabled={isLocating}
+        >
+          <LocateFixed className="h-4 w-4" />
+        </Button>
+      </div>
+      {error ? (
+        <p className="text-sm text-red-600 mt-1">{error}</p>
+      ) : (
+        <p className="text-sm text-gray-500 mt-1">Used for this farm's weather forecast and scoring.</p>
+      )}
+    </div>
+  );
+};
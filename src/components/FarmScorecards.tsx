@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ArrowDown, ArrowUp, History } from 'lucide-react';
+import {
+  METRIC_KEYS,
+  METRIC_LABELS,
+  hasScore,
+  overallFarmScore,
+  type FarmScore,
+  type MetricKey,
+  type MetricScore,
+  type ScoringSettings,
+} from "@/lib/scoring";
+import type { Farm, SustainabilityMetrics } from "@/types/farm";
+import { useFarmState, selectFarms } from "@/hooks/useFarmState";
+
+type SortKey = 'name' | 'overallScore' | MetricKey;
+
+interface FarmScorecardsProps {
+  farmScores: FarmScore[];
+  averages: SustainabilityMetrics | null;  // Of the whole operation, as on the Sustainability Score card
+  scoring: ScoringSettings;
+  onShowHistory: (farm: Farm) => void;
+  onShowBreakdown: (metric: MetricKey) => void;
+}
+
+interface Drag {
+  farm: Farm;
+  metric: MetricKey;
+  score: number;
+  points: number;  // Overall score the operation would gain with this farm at the average
+}
+
+// One row per farm with its sub-scores, highlighting those below the operation's average
+export const FarmScorecards: React.FC<FarmScorecardsProps> = ({
+  farmScores,
+  averages,
+  scoring,
+  onShowHistory,
+  onShowBreakdown,
+}) => {
+  const farms = useFarmState(selectFarms);
+  const [sortKey, setSortKey] = useState<SortKey>('overallScore');
+  const [ascending, setAscending] = useState(false);
+
+  if (!averages || farmScores.length === 0) return null;
+
+  const rows = farmScores.flatMap(farmScore => {
+    const farm = farms.find(f => f.id === farmScore.farmId);
+    return farm ? [{ farm, farmScore, overallScore: overallFarmScore(farmScore, scoring) }] : [];
+  });
+
+  // Farms without data sort below those scoring 0
+  const sortValue = (row: typeof rows[number]) => {
+    if (sortKey === 'name') return row.farm.name.toLowerCase();
+    if (sortKey === 'overallScore') return row.overallScore ?? -1;
+    const metric = row.farmScore.metrics[sortKey];
+    return hasScore(metric) ? metric.score : -1;
+  };
+  const sortedRows = [...rows].sort((a, b) => {
+    const valueA = sortValue(a);
+    const valueB = sortValue(b);
+    const order = valueA < valueB ? -1 : valueA > valueB ? 1 : 0;
+    return ascending ? order : -order;
+  });
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      setAscending(key === 'name');
+    }
+  };
+
+  // Metrics without data on any farm are left out of the overall score
+  const scoredMetrics = METRIC_KEYS.filter(key => rows.some(row => hasScore(row.farmScore.metrics[key])));
+  const totalWeight = scoredMetrics.reduce((sum, key) => sum + scoring.weights[key], 0);
+  const averageOf = (key: MetricKey) => averages[key] ?? 0;  // Only read for metrics some farm has data for
+  const isBelowAverage = (key: MetricKey, metric: MetricScore) => hasScore(metric) && metric.score < averageOf(key);
+
+  const drags: Drag[] = scoredMetrics.flatMap(metric => {
+    const scoredFarms = rows.filter(row => hasScore(row.farmScore.metrics[metric])).length;
+    return rows
+      .filter(row => isBelowAverage(metric, row.farmScore.metrics[metric]))
+      .map(({ farm, farmScore }) => {
+        const score = farmScore.metrics[metric].score;
+        return {
+          farm,
+          metric,
+          score,
+          points: ((averageOf(metric) - score) / scoredFarms) * (scoring.weights[metric] / totalWeight),
+        };
+      });
+  });
+  const biggestDrags = drags.sort((a, b) => b.points - a.points).slice(0, 3);
+
+  const SortHeader: React.FC<{ sort: SortKey; label: string; className?: string }> = ({ sort, label, className }) => (
+    <th className={`py-1 ${className ?? ''}`}>
+      <button type="button" className="inline-flex items-center gap-1" onClick={() => handleSort(sort)}>
+        {label}
+        {sortKey === sort && (ascending ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />)}
+      </button>
+    </th>
+  );
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <CardTitle>Farm Scorecards</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <SortHeader sort="name" label="Farm" />
+                {METRIC_KEYS.map(key => (
+                  <SortHeader key={key} sort={key} label={METRIC_LABELS[key]} className="text-right" />
+                ))}
+                <SortHeader sort="overallScore" label="Overall" className="text-right" />
+                <th className="py-1" />
+              </tr>
+            </thead>
+            <tbody>
+              {sortedRows.map(({ farm, farmScore, overallScore }) => (
+                <tr key={farm.id} className="border-t">
+                  <td className="py-1">{farm.name}</td>
+                  {METRIC_KEYS.map(key => {
+                    const metric = farmScore.metrics[key];
+                    const score = metric.score;
+                    const below = isBelowAverage(key, metric);
+                    return (
+                      <td key={key} className="py-1 text-right">
+                        <button
+                          type="button"
+                          className={`rounded px-1 ${below ? 'bg-red-100 text-red-800' : ''}`}
+                          title={below ? `${Math.round(averageOf(key) - score)} below the average` : 'Show breakdown'}
+                          onClick={() => onShowBreakdown(key)}
+                        >
+                          {hasScore(metric) ? Math.round(score) : '-'}
+                        </button>
+                      </td>
+                    );
+                  })}
+                  <td className="py-1 text-right font-medium">{overallScore !== null ? Math.round(overallScore) : '-'}</td>
+                  <td className="py-1 text-right">
+                    <Button variant="ghost" size="icon" title="Show history" onClick={() => onShowHistory(farm)}>
+                      <History className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+              <tr className="border-t font-medium">
+                <td className="py-1">Average</td>
+                {METRIC_KEYS.map(key => (
+                  <td key={key} className="py-1 text-right">{averages[key] ?? '-'}</td>
+                ))}
+                <td className="py-1 text-right">{averages.overallScore ?? '-'}</td>
+                <td />
+              </tr>
+            </tbody>
+          </table>
+        </div>
+        {biggestDrags.length > 0 && (
+          <div className="mt-4 text-sm">
+            <p className="text-gray-500 mb-1">Pulling the average down the most:</p>
+            <ul className="list-disc pl-4 space-y-1">
+              {biggestDrags.map(drag => (
+                <li key={`${drag.farm.id}:${drag.metric}`}>
+                  {drag.farm.name}'s {METRIC_LABELS[drag.metric]} of {Math.round(drag.score)}: bringing it to the
+                  average would add {Math.round(drag.points * 10) / 10} points to the overall score
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
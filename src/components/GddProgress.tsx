@@ -0,0 +1,63 @@
+import React from 'react';
+import { Thermometer } from 'lucide-react';
+import { cropSettings } from "@/lib/crops";
+import { gddProgress, plantingDate } from "@/lib/gdd";
+import type { Farm, WeatherData } from "@/types/farm";
+import { useFarmState, selectCropPlanEvents, selectCrops } from "@/hooks/useFarmState";
+import { useUnits } from "@/hooks/useUnits";
+
+interface GddProgressProps {
+  farm: Farm;
+  weather: WeatherData[];  // Archived and forecast days for the farm's location
+}
+
+const formatDay = (date: string) => new Date(`${date}T00:00`).toLocaleDateString();
+
+// Heat units the current crop has received since planting and when it should mature
+export const GddProgress: React.FC<GddProgressProps> = ({ farm, weather }) => {
+  const crops = useFarmState(selectCrops);
+  const events = useFarmState(selectCropPlanEvents);
+  const units = useUnits();
+
+  if (!farm.crop.trim()) return null;
+  const plantedOn = plantingDate(farm, events);
+  if (!plantedOn) {
+    return (
+      <p className="text-sm text-gray-500">
+        Add a planting to the rotation history or crop planner to track growing degree days.
+      </p>
+    );
+  }
+  if (farm.latitude === undefined || farm.longitude === undefined) {
+    return <p className="text-sm text-gray-500">Add a location to track growing degree days.</p>;
+  }
+
+  const { baseTemp, maturityGdd } = cropSettings(crops, farm.crop);
+  const progress = gddProgress(weather, plantedOn, baseTemp, maturityGdd);
+  const percent = Math.min(100, (progress.accumulated / progress.target) * 100);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <Thermometer className="h-4 w-4 text-red-500" />
+        <span>
+          Growing degree days: {units.format('degreeDays', progress.accumulated)} of {units.format('degreeDays', progress.target)}
+        </span>
+      </div>
+      <div className="h-2 w-full rounded-full bg-gray-200 overflow-hidden">
+        <div className="h-full bg-green-500" style={{ width: `${percent}%` }} />
+      </div>
+      <p className="text-sm text-gray-500">
+        Planted {formatDay(plantedOn)}, base {units.format('temperature', baseTemp)}.{' '}
+        {progress.maturityDate
+          ? `${progress.projected ? 'Expected maturity' : 'Matured'} ${formatDay(progress.maturityDate)}.`
+          : 'Not expected to mature within a year at the current rate.'}
+      </p>
+      {progress.missingDays > 0 && (
+        <p className="text-sm text-gray-500">
+          No weather for {progress.missingDays} {progress.missingDays === 1 ? 'day' : 'days'} since planting yet.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,222 @@
+import React, { useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import type { FarmData } from "@/lib/farmRepository";
+import {
+  applyImport,
+  findConflicts,
+  isSameRecord,
+  ConflictChoice,
+  ImportConflict,
+  ImportMode,
+  ImportSummary,
+  MatchStrategy,
+} from "@/lib/importMerge";
+
+interface ImportWizardProps {
+  open: boolean;
+  current: FarmData;
+  incoming: FarmData;
+  onCancel: () => void;
+  onConfirm: (data: FarmData, summary: ImportSummary) => void;
+}
+
+const MODE_DESCRIPTIONS: Record<ImportMode, string> = {
+  replace: 'Discard all current data and use the imported file as-is.',
+  merge: 'Update matching records and add new ones. You choose which version to keep for conflicts.',
+  append: 'Add every imported record as a new entry, leaving existing data untouched. Crop settings are only added for new crops.',
+};
+
+const COLLECTION_LABELS: Record<ImportConflict['collection'], string> = {
+  farms: 'Farm',
+  tasks: 'Task',
+  issues: 'Issue',
+  cropPlanEvents: 'Crop Plan Event',
+  crops: 'Crop',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (value instanceof Date) return value.toLocaleDateString();
+  if (Array.isArray(value)) return `${value.length} ${value.length === 1 ? 'record' : 'records'}`;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const ConflictDiff: React.FC<{
+  conflict: ImportConflict;
+  choice: ConflictChoice;
+  onChoose: (choice: ConflictChoice) => void;
+}> = ({ conflict, choice, onChoose }) => {
+  const existing = conflict.existing as unknown as Record<string, unknown>;
+  const incoming = conflict.incoming as unknown as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(existing), ...Object.keys(incoming)]))
+    .filter(field => field !== 'id');
+
+  return (
+    <div className="border rounded p-3 space-y-2">
+      <div className="flex justify-between items-center">
+        <div>
+          <p className="text-xs text-gray-500">{COLLECTION_LABELS[conflict.collection]}</p>
+          <p className="font-medium">{conflict.label}</p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant={choice === 'existing' ? 'default' : 'outline'}
+            onClick={() => onChoose('existing')}
+          >
+            Keep existing
+          </Button>
+          <Button
+            size="sm"
+            variant={choice === 'incoming' ? 'default' : 'outline'}
+            onClick={() => onChoose('incoming')}
+          >
+            Use imported
+          </Button>
+        </div>
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="font-normal py-1">Field</th>
+            <th className="font-normal py-1">Existing</th>
+            <th className="font-normal py-1">Imported</th>
+          </tr>
+        </thead>
+        <tbody>
+          {fields.map(field => {
+            const changed = !isSameRecord(existing[field], incoming[field]);
+            return (
+              <tr key={field} className={changed ? 'bg-yellow-50' : ''}>
+                <td className="py-1 pr-2 text-gray-600">{field}</td>
+                <td className={cn("py-1 pr-2", changed && choice === 'existing' && 'font-medium')}>
+                  {formatValue(existing[field])}
+                </td>
+                <td className={cn("py-1", changed && choice === 'incoming' && 'font-medium')}>
+                  {formatValue(incoming[field])}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export const ImportWizard: React.FC<ImportWizardProps> = ({
+  open,
+  current,
+  incoming,
+  onCancel,
+  onConfirm,
+}) => {
+  const [step, setStep] = useState<'options' | 'conflicts'>('options');
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [matchBy, setMatchBy] = useState<MatchStrategy>('id');
+  const [resolutions, setResolutions] = useState<Record<string, ConflictChoice>>({});
+
+  const conflicts = useMemo(
+    () => mode === 'merge' ? findConflicts(current, incoming, matchBy) : [],
+    [current, incoming, mode, matchBy]
+  );
+
+  const handleImport = () => {
+    const { data, summary } = applyImport(current, incoming, { mode, matchBy, resolutions });
+    onConfirm(data, summary);
+  };
+
+  const setAllResolutions = (choice: ConflictChoice) => {
+    setResolutions(Object.fromEntries(conflicts.map(conflict => [conflict.key, choice])));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            {step === 'options' ? 'Import Data' : `Resolve Conflicts (${conflicts.length})`}
+          </DialogTitle>
+        </DialogHeader>
+
+        {step === 'options' ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              The file contains {incoming.farms.length} farms, {incoming.tasks.length} tasks,{' '}
+              {incoming.issues.length} issues, {incoming.cropPlanEvents.length} crop plan events and{' '}
+              {incoming.crops.length} crop settings.
+            </p>
+            <div>
+              <Label>Import mode</Label>
+              <select
+                className="w-full p-2 border rounded"
+                value={mode}
+                onChange={(e) => setMode(e.target.value as ImportMode)}
+              >
+                <option value="merge">Merge</option>
+                <option value="append">Append</option>
+                <option value="replace">Replace</option>
+              </select>
+              <p className="text-sm text-gray-500 mt-1">{MODE_DESCRIPTIONS[mode]}</p>
+            </div>
+            {mode === 'merge' && (
+              <div>
+                <Label>Match farms by</Label>
+                <select
+                  className="w-full p-2 border rounded"
+                  value={matchBy}
+                  onChange={(e) => setMatchBy(e.target.value as MatchStrategy)}
+                >
+                  <option value="id">ID</option>
+                  <option value="name">Name</option>
+                </select>
+                <p className="text-sm text-gray-500 mt-1">
+                  {conflicts.length > 0
+                    ? `${conflicts.length} imported ${conflicts.length === 1 ? 'record differs' : 'records differ'} from existing data.`
+                    : 'No conflicting records found.'}
+                </p>
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={onCancel} className="w-full">Cancel</Button>
+              {mode === 'merge' && conflicts.length > 0 ? (
+                <Button onClick={() => setStep('conflicts')} className="w-full">Review Conflicts</Button>
+              ) : (
+                <Button onClick={handleImport} className="w-full">Import</Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setAllResolutions('existing')}>
+                Keep all existing
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setAllResolutions('incoming')}>
+                Use all imported
+              </Button>
+            </div>
+            <div className="max-h-[60vh] overflow-y-auto space-y-3">
+              {conflicts.map(conflict => (
+                <ConflictDiff
+                  key={conflict.key}
+                  conflict={conflict}
+                  choice={resolutions[conflict.key] || 'incoming'}
+                  onChoose={(choice) => setResolutions(prev => ({ ...prev, [conflict.key]: choice }))}
+                />
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setStep('options')} className="w-full">Back</Button>
+              <Button onClick={handleImport} className="w-full">Import</Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,92 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import type { IrrigationStatus, WaterBalance } from "@/lib/waterBalance";
+import type { Farm } from "@/types/farm";
+import { useFarmState, selectFarms } from "@/hooks/useFarmState";
+import { useUnits } from "@/hooks/useUnits";
+
+interface IrrigationBalanceCardProps {
+  balanceFor: (farm: Farm) => WaterBalance | null;
+}
+
+const STATUS_LABELS: Record<IrrigationStatus, string> = {
+  under: 'Under-irrigated',
+  balanced: 'Balanced',
+  over: 'Over-irrigated',
+};
+
+const STATUS_CLASSES: Record<IrrigationStatus, string> = {
+  under: 'bg-yellow-100 text-yellow-800',
+  balanced: 'bg-green-100 text-green-800',
+  over: 'bg-red-100 text-red-800',
+};
+
+const formatDay = (date: string) => new Date(`${date}T00:00`).toLocaleDateString();
+
+// Water applied between a farm's first and last watering against what the crop used
+// (ET₀ × Kc) less effective rain, as depth over the farm's area
+export const IrrigationBalanceCard: React.FC<IrrigationBalanceCardProps> = ({ balanceFor }) => {
+  const farms = useFarmState(selectFarms);
+  const units = useUnits();
+
+  if (farms.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Irrigation Balance</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-1">Farm</th>
+              <th className="py-1">Period</th>
+              <th className="py-1 text-right">Crop water use</th>
+              <th className="py-1 text-right">Effective rain</th>
+              <th className="py-1 text-right">Needed</th>
+              <th className="py-1 text-right">Applied</th>
+              <th className="py-1 text-right">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {farms.map(farm => {
+              const balance = balanceFor(farm);
+              if (!balance) {
+                return (
+                  <tr key={farm.id} className="border-t">
+                    <td className="py-1">{farm.name}</td>
+                    <td className="py-1 text-gray-500" colSpan={6}>
+                      Needs a size, a location and at least two waterings with weather
+                    </td>
+                  </tr>
+                );
+              }
+              return (
+                <tr key={farm.id} className="border-t">
+                  <td className="py-1">{farm.name}</td>
+                  <td className="py-1">{formatDay(balance.from)} – {formatDay(balance.to)}</td>
+                  <td className="py-1 text-right">{units.format('precipitation', balance.cropEt)}</td>
+                  <td className="py-1 text-right">{units.format('precipitation', balance.effectiveRain)}</td>
+                  <td className="py-1 text-right">{units.format('precipitation', balance.demand)}</td>
+                  <td className="py-1 text-right">{units.format('precipitation', balance.applied)}</td>
+                  <td className="py-1 text-right">
+                    <Badge variant="outline" className={STATUS_CLASSES[balance.status]}>
+                      {STATUS_LABELS[balance.status]}
+                      {balance.status !== 'balanced' && ` by ${units.format('precipitation', Math.abs(balance.difference))}`}
+                    </Badge>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <p className="mt-2 text-sm text-gray-500">
+          Each watering should replace what the crop used since the previous one. Water use follows the
+          Hargreaves reference evapotranspiration and the crop coefficient for its growth stage.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
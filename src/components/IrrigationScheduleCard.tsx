@@ -0,0 +1,102 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { CheckCircle, ListPlus } from 'lucide-react';
+import type { IrrigationSchedule, IrrigationSuggestion } from "@/lib/irrigationSchedule";
+import { SOIL_TYPES } from "@/lib/soil";
+import type { Farm } from "@/types/farm";
+import { useFarmState, farmActions, selectFarms, selectTasks } from "@/hooks/useFarmState";
+import { useUnits } from "@/hooks/useUnits";
+
+interface IrrigationScheduleCardProps {
+  scheduleFor: (farm: Farm) => IrrigationSchedule | null;
+}
+
+const formatDay = (date: string) => new Date(`${date}T00:00`).toLocaleDateString();
+
+// Suggested waterings for the next ten days from each farm's soil water balance
+export const IrrigationScheduleCard: React.FC<IrrigationScheduleCardProps> = ({ scheduleFor }) => {
+  const farms = useFarmState(selectFarms);
+  const tasks = useFarmState(selectTasks);
+  const units = useUnits();
+
+  if (farms.length === 0) return null;
+
+  const taskTitle = (farm: Farm, suggestion: IrrigationSuggestion) =>
+    `Irrigate ${farm.name}: ${units.format('water', suggestion.volume)}`;
+
+  const hasTask = (farm: Farm, suggestion: IrrigationSuggestion) =>
+    tasks.some(task => task.title === taskTitle(farm, suggestion) && task.dueDate === suggestion.date);
+
+  const recordAsDone = (suggestion: IrrigationSuggestion) =>
+    farmActions.recordWater(suggestion.farmId, { amount: Math.round(suggestion.volume), date: suggestion.date });
+
+  const addTask = (farm: Farm, suggestion: IrrigationSuggestion) =>
+    farmActions.addTask({
+      title: taskTitle(farm, suggestion),
+      dueDate: suggestion.date,
+      priority: 'medium',
+      completed: false,
+    });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Irrigation Schedule</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {farms.map(farm => {
+          const schedule = scheduleFor(farm);
+          return (
+            <div key={farm.id} className="space-y-2">
+              <div className="flex justify-between items-baseline">
+                <p className="font-medium">{farm.name}</p>
+                {schedule && (
+                  <p className="text-sm text-gray-500">
+                    {SOIL_TYPES[schedule.soilType].label}{schedule.soilAssumed && ' (assumed)'},{' '}
+                    {units.format('precipitation', schedule.depletion)} of {units.format('precipitation', schedule.totalAvailable)} used
+                  </p>
+                )}
+              </div>
+              {!schedule ? (
+                <p className="text-sm text-gray-500">Needs a size, a location and a forecast to plan irrigation</p>
+              ) : schedule.suggestions.length === 0 ? (
+                <p className="text-sm text-gray-500">No irrigation needed in the next 10 days</p>
+              ) : (
+                schedule.suggestions.map(suggestion => (
+                  <div key={suggestion.id} className="flex justify-between items-center p-2 border rounded">
+                    <div>
+                      <p>{formatDay(suggestion.date)}</p>
+                      <p className="text-sm text-gray-500">
+                        {units.format('water', suggestion.volume)} ({units.format('precipitation', suggestion.depth)})
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => recordAsDone(suggestion)}>
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        Record as done
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={hasTask(farm, suggestion)}
+                        onClick={() => addTask(farm, suggestion)}
+                      >
+                        <ListPlus className="h-4 w-4 mr-1" />
+                        {hasTask(farm, suggestion) ? 'Task added' : 'Add as Task'}
+                      </Button>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          );
+        })}
+        <p className="text-sm text-gray-500">
+          Waterings are suggested before the crop uses the readily available water in its root zone, and refill
+          the soil to field capacity. Set a farm's soil type on the Farms tab.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,108 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { METRIC_LABELS, type FarmScore, type MetricKey, type RecordRef } from "@/lib/scoring";
+import { toxicityLabel } from "@/lib/pesticides";
+import type { Farm } from "@/types/farm";
+import { useFarmState, selectFarms } from "@/hooks/useFarmState";
+import { useUnits } from "@/hooks/useUnits";
+
+interface ScoreBreakdownDialogProps {
+  metric: MetricKey | null;  // Open while set
+  farmScores: FarmScore[];
+  onClose: () => void;
+}
+
+const formatDay = (date: string) => new Date(`${date.slice(0, 10)}T00:00`).toLocaleDateString();
+
+const formatPoints = (points: number) => {
+  const rounded = Math.round(points * 10) / 10;
+  return rounded > 0 ? `+${rounded}` : String(rounded);
+};
+
+// How each farm's score for a metric was built up, with the records behind every factor
+export const ScoreBreakdownDialog: React.FC<ScoreBreakdownDialogProps> = ({ metric, farmScores, onClose }) => {
+  const farms = useFarmState(selectFarms);
+  const units = useUnits();
+
+  const describeRecord = (farm: Farm, { history, id }: RecordRef) => {
+    switch (history) {
+      case 'waterHistory': {
+        const usage = farm.waterHistory.find(record => record.id === id);
+        return usage && `${formatDay(usage.date)}: ${units.format('water', usage.amount)} of water`;
+      }
+      case 'fertilizerHistory': {
+        const usage = farm.fertilizerHistory.find(record => record.id === id);
+        return usage && `${formatDay(usage.date)}: ${units.format('fertilizer', usage.amount)} of ${usage.type || 'fertilizer'}`;
+      }
+      case 'harvestHistory': {
+        const harvest = farm.harvestHistory.find(record => record.id === id);
+        return harvest &&
+          `${formatDay(harvest.date)}: ${harvest.amount.toLocaleString()} ${harvest.unit} (${units.format('harvest', harvest.weight)}) harvested`;
+      }
+      case 'rotationHistory': {
+        const rotation = farm.rotationHistory?.find(record => record.id === id);
+        return rotation && `${rotation.crop} from ${formatDay(rotation.startDate)} to ${formatDay(rotation.endDate)}`;
+      }
+      case 'pesticides': {
+        const application = farm.pesticides?.find(record => record.id === id);
+        return application &&
+          `${formatDay(application.date)}: ${units.format('pesticide', application.amount)} of ${application.type}, ${toxicityLabel(application.toxicity).toLowerCase()}`;
+      }
+    }
+  };
+
+  return (
+    <Dialog open={metric !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{metric && METRIC_LABELS[metric]} Breakdown</DialogTitle>
+        </DialogHeader>
+        {metric && (
+          <div className="space-y-4">
+            {farmScores.map(({ farmId, metrics }) => {
+              const farm = farms.find(f => f.id === farmId);
+              if (!farm) return null;
+              const { score, contributions } = metrics[metric];
+              return (
+                <div key={farmId} className="space-y-2">
+                  <div className="flex justify-between items-baseline">
+                    <p className="font-medium">{farm.name}</p>
+                    <p className="font-bold">{contributions.length ? Math.round(score) : '-'}</p>
+                  </div>
+                  {contributions.length === 0 ? (
+                    <p className="text-sm text-gray-500">No data for this metric, so it is left out of the average</p>
+                  ) : (
+                    <ul className="space-y-1 text-sm">
+                      {contributions.map((contribution, index) => (
+                        <li key={index}>
+                          <details>
+                            <summary className="flex justify-between cursor-pointer list-none">
+                              <span>{contribution.label}</span>
+                              <span className={contribution.points < 0 ? 'text-red-600' : 'text-green-600'}>
+                                {formatPoints(contribution.points)}
+                              </span>
+                            </summary>
+                            {contribution.records.length > 0 && (
+                              <ul className="pl-4 text-gray-500">
+                                {contribution.records.map(record => (
+                                  <li key={`${record.history}:${record.id}`}>{describeRecord(farm, record) ?? 'Deleted record'}</li>
+                                ))}
+                              </ul>
+                            )}
+                          </details>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+            <p className="text-sm text-gray-500">
+              Select a factor to see the records it was calculated from. Farms without data are not averaged in.
+            </p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,217 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RotateCw } from 'lucide-react';
+import { METRIC_KEYS, METRIC_LABELS } from "@/lib/scoring";
+import {
+  firstRecordDate,
+  scorePeriods,
+  scoreSnapshots,
+  type ScorePeriod,
+  type ScoreSnapshot,
+  type SnapshotGranularity,
+} from "@/lib/scoreSnapshots";
+import { formatLocalDate } from "@/lib/weather";
+import type { SustainabilityMetrics } from "@/types/farm";
+import { useFarmState, selectFarms, selectWorkspaceId } from "@/hooks/useFarmState";
+
+interface ScoreTrendCardProps {
+  scoresAsOf: (date: string) => SustainabilityMetrics | null;  // All farms, from the records dated up to the day
+}
+
+const LINE_COLORS: Record<keyof SustainabilityMetrics, string> = {
+  overallScore: '#111827',
+  waterEfficiency: '#2563eb',
+  organicScore: '#16a34a',
+  harvestEfficiency: '#ca8a04',
+  soilQualityScore: '#92400e',
+  rotationScore: '#ea580c',
+  pesticideScore: '#7c3aed',
+};
+
+const TREND_KEYS: (keyof SustainabilityMetrics)[] = ['overallScore', ...METRIC_KEYS];
+
+const trendLabel = (key: keyof SustainabilityMetrics) => key === 'overallScore' ? 'Overall' : METRIC_LABELS[key];
+
+// Sustainability scores at the end of each month or season, compared with a baseline period
+export const ScoreTrendCard: React.FC<ScoreTrendCardProps> = ({ scoresAsOf }) => {
+  const farms = useFarmState(selectFarms);
+  const workspaceId = useFarmState(selectWorkspaceId);
+  const [snapshots, setSnapshots] = useState<ScoreSnapshot[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [granularity, setGranularity] = useState<SnapshotGranularity>('season');
+  const [baselinePeriod, setBaselinePeriod] = useState('');
+
+  const today = formatLocalDate(new Date());
+  const firstDate = firstRecordDate(farms);
+  const periods = useMemo(
+    () => firstDate ? scorePeriods(granularity, firstDate, today) : [],
+    [granularity, firstDate, today]
+  );
+
+  useEffect(() => {
+    setIsLoaded(false);
+    scoreSnapshots.list()
+      .then(saved => {
+        setSnapshots(saved);
+        setIsLoaded(true);
+      })
+      .catch(error => console.error('Error loading score snapshots:', error));
+  }, [workspaceId]);
+
+  const snapshotOf = useCallback(
+    (period: ScorePeriod) =>
+      snapshots.find(snapshot => snapshot.granularity === granularity && snapshot.period === period.key),
+    [snapshots, granularity]
+  );
+
+  const takeSnapshots = useCallback(async (toTake: ScorePeriod[]) => {
+    const computedAt = new Date().toISOString();
+    const taken = toTake.flatMap(period => {
+      const metrics = scoresAsOf(period.end);
+      return metrics ? [{ granularity, period: period.key, label: period.label, metrics, computedAt }] : [];
+    });
+    if (taken.length === 0) return;
+    try {
+      await scoreSnapshots.save(taken);
+      setSnapshots(prev => [
+        ...prev.filter(snapshot => !taken.some(t => t.granularity === snapshot.granularity && t.period === snapshot.period)),
+        ...taken,
+      ]);
+    } catch (error) {
+      console.error('Error saving score snapshots:', error);
+    }
+  }, [granularity, scoresAsOf]);
+
+  // Completed periods are scored once and kept; the current one stays live
+  const completedPeriods = useMemo(() => periods.filter(period => period.end < today), [periods, today]);
+  const missingPeriods = useMemo(
+    () => isLoaded ? completedPeriods.filter(period => !snapshotOf(period)) : [],
+    [isLoaded, completedPeriods, snapshotOf]
+  );
+  useEffect(() => {
+    if (missingPeriods.length > 0) takeSnapshots(missingPeriods);
+  }, [missingPeriods, takeSnapshots]);
+
+  const currentScores = useMemo(() => scoresAsOf(today), [scoresAsOf, today]);
+
+  const trend = periods.flatMap(period => {
+    const metrics = period.end < today ? snapshotOf(period)?.metrics : currentScores;
+    return metrics ? [{ key: period.key, label: period.end < today ? period.label : `${period.label} (so far)`, metrics }] : [];
+  });
+
+  if (farms.length === 0 || trend.length === 0) return null;
+
+  const baseline = trend.find(point => point.key === baselinePeriod) ?? trend[0];
+  const latest = trend[trend.length - 1];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex justify-between items-center">
+          <span>Sustainability Trend</span>
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Recalculate past periods with the current records and scoring settings"
+            onClick={() => takeSnapshots(completedPeriods)}
+          >
+            <RotateCw className="h-4 w-4" />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-4">
+          <div>
+            <Label htmlFor="trendGranularity">Period</Label>
+            <select
+              id="trendGranularity"
+              value={granularity}
+              onChange={(e) => setGranularity(e.target.value as SnapshotGranularity)}
+              className="w-full p-2 border rounded"
+            >
+              <option value="month">Month</option>
+              <option value="season">Season</option>
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="trendBaseline">Baseline</Label>
+            <select
+              id="trendBaseline"
+              value={baseline.key}
+              onChange={(e) => setBaselinePeriod(e.target.value)}
+              className="w-full p-2 border rounded"
+            >
+              {trend.map(point => (
+                <option key={point.key} value={point.key}>{point.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="h-[300px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart
+              data={trend.map(point => ({
+                label: point.label,
+                // Metrics without data are null, so they are left as gaps rather than drawn at 0
+                ...Object.fromEntries(TREND_KEYS.map(key => [key, point.metrics[key]])),
+              }))}
+            >
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" />
+              <YAxis domain={[0, 100]} />
+              <Tooltip />
+              <Legend />
+              <ReferenceLine x={baseline.label} stroke="#6b7280" strokeDasharray="4 4" label="Baseline" />
+              {TREND_KEYS.map(key => (
+                <Line
+                  key={key}
+                  type="monotone"
+                  dataKey={key}
+                  name={trendLabel(key)}
+                  stroke={LINE_COLORS[key]}
+                  strokeWidth={key === 'overallScore' ? 3 : 1.5}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-1">Metric</th>
+              <th className="py-1 text-right">{baseline.label}</th>
+              <th className="py-1 text-right">{latest.label}</th>
+              <th className="py-1 text-right">Change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {TREND_KEYS.map(key => {
+              const from = baseline.metrics[key];
+              const to = latest.metrics[key];
+              const change = from !== null && to !== null ? to - from : null;
+              return (
+                <tr key={key} className="border-t">
+                  <td className="py-1">{trendLabel(key)}</td>
+                  <td className="py-1 text-right">{from ?? '-'}</td>
+                  <td className="py-1 text-right">{to ?? '-'}</td>
+                  <td className={`py-1 text-right ${!change ? '' : change > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {change !== null ? `${change > 0 ? '+' : ''}${change}` : '-'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <p className="text-sm text-gray-500">
+          Each period is scored from the records dated up to its last day across all farms. Past periods keep
+          the score they were given; recalculate after editing old records or changing the scoring settings.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Trash2 } from 'lucide-react';
+import {
+  BUILT_IN_PROFILES,
+  METRIC_KEYS,
+  METRIC_LABELS,
+  sameScoring,
+  withScoringDefaults,
+  type ScoringSettings,
+} from "@/lib/scoring";
+import {
+  deleteScoringProfile,
+  saveScoringProfile,
+  setScoringSettings,
+  useScoringPreferences,
+  useScoringSettings,
+} from "@/hooks/useScoringSettings";
+import { useUnits } from "@/hooks/useUnits";
+
+interface NumberFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  min?: number;
+  max?: number;
+}
+
+// Keeps the typed text so partial entries like "6." are not reformatted while typing
+const NumberField: React.FC<NumberFieldProps> = ({ id, label, value, onChange, min, max }) => {
+  const [text, setText] = useState(String(value));
+
+  return (
+    <div>
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        step="any"
+        min={min}
+        max={max}
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          const parsed = parseFloat(e.target.value);
+          if (!isNaN(parsed) && (min === undefined || parsed >= min) && (max === undefined || parsed <= max)) {
+            onChange(parsed);
+          }
+        }}
+        className="border rounded px-2 py-1"
+      />
+    </div>
+  );
+};
+
+interface ScoringSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  overallScore: number | null;  // Score with the current settings, recomputed as they change
+}
+
+export const ScoringSettingsDialog: React.FC<ScoringSettingsDialogProps> = ({ open, onOpenChange, overallScore }) => {
+  const { profiles } = useScoringPreferences();
+  const settings = useScoringSettings();
+  const units = useUnits();
+  const [profileName, setProfileName] = useState('');
+  // Fields restart from the settings whenever a profile is loaded
+  const [revision, setRevision] = useState(0);
+
+  const allProfiles = [...BUILT_IN_PROFILES, ...profiles];
+  const activeProfile = allProfiles.find(profile => sameScoring(withScoringDefaults(profile.settings), settings));
+  const isBuiltIn = (name: string) => BUILT_IN_PROFILES.some(profile => profile.name === name);
+  const totalWeight = METRIC_KEYS.reduce((sum, key) => sum + settings.weights[key], 0);
+
+  const update = (changes: Partial<ScoringSettings>) => setScoringSettings({ ...settings, ...changes });
+
+  // The load limit is stored per hectare and shown per unit of the preferred area unit
+  const areaPerHectare = units.toDisplay('area', 1);
+
+  const handleSaveProfile = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = profileName.trim();
+    if (!name || isBuiltIn(name)) return;
+    saveScoringProfile(name);
+    setProfileName('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Sustainability Scoring</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="flex justify-between items-end gap-2">
+            <div className="flex-1">
+              <Label htmlFor="scoringProfile">Profile</Label>
+              <select
+                id="scoringProfile"
+                value={activeProfile?.name ?? ''}
+                onChange={(e) => {
+                  const profile = allProfiles.find(p => p.name === e.target.value);
+                  if (!profile) return;
+                  setScoringSettings(withScoringDefaults(profile.settings));
+                  setRevision(revision + 1);
+                }}
+                className="w-full p-2 border rounded"
+              >
+                {!activeProfile && <option value="">Custom</option>}
+                {allProfiles.map(profile => (
+                  <option key={profile.name} value={profile.name}>{profile.name}</option>
+                ))}
+              </select>
+            </div>
+            {activeProfile && !isBuiltIn(activeProfile.name) && (
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Delete profile"
+                onClick={() => deleteScoringProfile(activeProfile.name)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+            <div className="text-right">
+              <p className="text-sm text-gray-500">Overall score</p>
+              <p className="text-2xl font-bold">{overallScore ?? '-'}</p>
+            </div>
+          </div>
+
+          <div>
+            <p className="font-medium mb-2">Weights</p>
+            <div className="grid grid-cols-2 gap-3">
+              {METRIC_KEYS.map(key => (
+                <NumberField
+                  key={`${key}:${revision}`}
+                  id={`weight-${key}`}
+                  label={METRIC_LABELS[key]}
+                  value={settings.weights[key]}
+                  min={0}
+                  onChange={(value) => update({ weights: { ...settings.weights, [key]: value } })}
+                />
+              ))}
+            </div>
+            <p className="text-sm text-gray-500 mt-1">
+              Weights are relative: they add up to {Math.round(totalWeight * 100) / 100} and are scaled over the metrics with data.
+            </p>
+            {totalWeight === 0 && (
+              <p className="text-sm text-red-600 mt-1">
+                With every weight at 0 there is no overall score. Give at least one metric a weight.
+              </p>
+            )}
+          </div>
+
+          <div>
+            <p className="font-medium mb-2">Thresholds</p>
+            <div className="grid grid-cols-2 gap-3">
+              <NumberField
+                key={`baseScore:${revision}`}
+                id="baseScore"
+                label="Base soil and organic score"
+                value={settings.baseScore}
+                min={0}
+                max={100}
+                onChange={(baseScore) => update({ baseScore })}
+              />
+              <NumberField
+                key={`idealPH:${revision}`}
+                id="idealPH"
+                label="Ideal soil pH"
+                value={settings.idealPH}
+                min={0}
+                max={14}
+                onChange={(idealPH) => update({ idealPH })}
+              />
+              <NumberField
+                key={`phPenalty:${revision}`}
+                id="phPenalty"
+                label="Points lost per pH unit off ideal"
+                value={settings.phPenalty}
+                min={0}
+                onChange={(phPenalty) => update({ phPenalty })}
+              />
+              <NumberField
+                key={`irrigationTolerance:${revision}`}
+                id="irrigationTolerance"
+                label="Balanced irrigation tolerance (%)"
+                value={Math.round(settings.irrigationTolerance * 1000) / 10}
+                min={0}
+                max={100}
+                onChange={(percent) => update({ irrigationTolerance: percent / 100 })}
+              />
+              <NumberField
+                key={`pesticideLoadLimit:${revision}`}
+                id="pesticideLoadLimit"
+                label={`Pesticide load scoring 0 (toxicity × ${units.symbol('pesticide')}/${units.symbol('area')} a year)`}
+                value={Math.round(units.toDisplay('pesticide', settings.pesticideLoadLimit) / areaPerHectare * 100) / 100}
+                min={0.01}
+                onChange={(limit) => update({ pesticideLoadLimit: units.fromDisplay('pesticide', limit * areaPerHectare) })}
+              />
+            </div>
+          </div>
+
+          <form onSubmit={handleSaveProfile} className="flex items-end gap-2">
+            <div className="flex-1">
+              <Label htmlFor="profileName">Save as profile</Label>
+              <Input
+                id="profileName"
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                placeholder="e.g. Organic certification"
+                className="border rounded px-2 py-1"
+              />
+            </div>
+            <Button type="submit" disabled={!profileName.trim() || isBuiltIn(profileName.trim())}>
+              Save
+            </Button>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
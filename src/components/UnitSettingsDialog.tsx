@@ -0,0 +1,73 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { QUANTITIES, UNITS, type Quantity, type UnitId, type UnitSystem } from "@/lib/units";
+import { setUnitPreferences, useUnits } from "@/hooks/useUnits";
+
+interface UnitSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const UnitSettingsDialog: React.FC<UnitSettingsDialogProps> = ({ open, onOpenChange }) => {
+  const { preferences } = useUnits();
+
+  const handleOverrideChange = (quantity: Quantity, unit: string) => {
+    const overrides = { ...preferences.overrides };
+    if (unit) {
+      overrides[quantity] = unit as UnitId;
+    } else {
+      delete overrides[quantity];
+    }
+    setUnitPreferences({ ...preferences, overrides });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Units</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="unitSystem">Unit system</Label>
+            <select
+              id="unitSystem"
+              value={preferences.system}
+              onChange={(e) => setUnitPreferences({ ...preferences, system: e.target.value as UnitSystem })}
+              className="w-full p-2 border rounded"
+            >
+              <option value="metric">Metric</option>
+              <option value="imperial">Imperial</option>
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            {(Object.keys(QUANTITIES) as Quantity[]).map(quantity => {
+              const definition = QUANTITIES[quantity];
+              const systemUnit = UNITS[definition[preferences.system]];
+              return (
+                <div key={quantity}>
+                  <Label htmlFor={`unit-${quantity}`}>{definition.label}</Label>
+                  <select
+                    id={`unit-${quantity}`}
+                    value={preferences.overrides[quantity] ?? ''}
+                    onChange={(e) => handleOverrideChange(quantity, e.target.value)}
+                    className="w-full p-2 border rounded"
+                  >
+                    <option value="">Default ({systemUnit.symbol})</option>
+                    {definition.units.map(unit => (
+                      <option key={unit} value={unit}>{UNITS[unit].name} ({UNITS[unit].symbol})</option>
+                    ))}
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-sm text-gray-500">
+            Records are stored in metric units, so changing these only affects how values are shown and entered.
+          </p>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,195 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CloudRain, Settings, Snowflake, Sun, X } from 'lucide-react';
+import { HAZARD_LABELS, evaluateAlerts, type AlertSettings, type WeatherAlert } from "@/lib/alerts";
+import { WEATHER_HAZARDS } from "@/lib/crops";
+import type { Quantity } from "@/lib/units";
+import type { Farm, WeatherData, WeatherHazard } from "@/types/farm";
+import { useFarmState, farmActions, selectCrops, selectFarms, selectTasks } from "@/hooks/useFarmState";
+import {
+  dismissAlert,
+  markAlertTasked,
+  setAlertSettings,
+  useAlertSettings,
+  useHandledAlerts,
+} from "@/hooks/useAlertSettings";
+import { useUnits } from "@/hooks/useUnits";
+
+const HAZARD_ICONS: Record<WeatherHazard, React.ReactNode> = {
+  frost: <Snowflake className="h-4 w-4" />,
+  heat: <Sun className="h-4 w-4" />,
+  heavyRain: <CloudRain className="h-4 w-4" />,
+};
+
+const HAZARD_QUANTITIES: Record<WeatherHazard, Quantity> = {
+  frost: 'temperature',
+  heat: 'temperature',
+  heavyRain: 'precipitation',
+};
+
+const formatDay = (date: string) => new Date(`${date}T00:00`).toLocaleDateString();
+
+const taskTitle = (alert: WeatherAlert) =>
+  `${HAZARD_LABELS[alert.hazard]}: protect ${alert.crop} at ${alert.farmName} (${formatDay(alert.date)})`;
+
+interface AlertSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const AlertSettingsDialog: React.FC<AlertSettingsDialogProps> = ({ open, onOpenChange }) => {
+  const settings = useAlertSettings();
+  const units = useUnits();
+
+  const updateRule = (hazard: WeatherHazard, rule: Partial<AlertSettings[WeatherHazard]>) =>
+    setAlertSettings({ ...settings, [hazard]: { ...settings[hazard], ...rule } });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Alert Settings</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          {WEATHER_HAZARDS.map(hazard => {
+            const quantity = HAZARD_QUANTITIES[hazard];
+            return (
+              <div key={hazard} className="grid grid-cols-2 gap-2 items-end">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={settings[hazard].enabled}
+                    onChange={(e) => updateRule(hazard, { enabled: e.target.checked })}
+                  />
+                  {HAZARD_LABELS[hazard]}
+                </label>
+                <div>
+                  <Label htmlFor={`threshold-${hazard}`}>
+                    {hazard === 'frost' ? 'At or below' : 'At or above'} ({units.symbol(quantity)})
+                  </Label>
+                  <Input
+                    id={`threshold-${hazard}`}
+                    type="number"
+                    step="any"
+                    key={units.symbol(quantity)}
+                    defaultValue={units.toInput(quantity, settings[hazard].threshold)}
+                    onBlur={(e) => {
+                      const value = parseFloat(e.target.value);
+                      if (!isNaN(value)) updateRule(hazard, { threshold: units.fromDisplay(quantity, value) });
+                    }}
+                    disabled={!settings[hazard].enabled}
+                    className="border rounded px-2 py-1"
+                  />
+                </div>
+              </div>
+            );
+          })}
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={settings.createTasks}
+              onChange={(e) => setAlertSettings({ ...settings, createTasks: e.target.checked })}
+            />
+            Create a task for every new alert
+          </label>
+          <p className="text-sm text-gray-500">
+            Alerts are only raised for farms whose crop is sensitive to the hazard. Crop sensitivities can be changed on the Farms tab.
+          </p>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface WeatherAlertsProps {
+  forecastFor: (farm: Farm) => WeatherData[];
+}
+
+export const WeatherAlerts: React.FC<WeatherAlertsProps> = ({ forecastFor }) => {
+  const farms = useFarmState(selectFarms);
+  const crops = useFarmState(selectCrops);
+  const tasks = useFarmState(selectTasks);
+  const settings = useAlertSettings();
+  const handled = useHandledAlerts();
+  const units = useUnits();
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
+  const alerts = useMemo(
+    () => evaluateAlerts(farms, forecastFor, crops, settings).filter(alert => !handled.dismissed.includes(alert.id)),
+    [farms, forecastFor, crops, settings, handled.dismissed]
+  );
+
+  const hasTask = useCallback(
+    (alert: WeatherAlert) => tasks.some(task => task.title === taskTitle(alert)),
+    [tasks]
+  );
+
+  const addTask = useCallback((alert: WeatherAlert) => {
+    markAlertTasked(alert.id);
+    if (hasTask(alert)) return;
+    farmActions.addTask({ title: taskTitle(alert), dueDate: alert.date, priority: 'high', completed: false });
+  }, [hasTask]);
+
+  // Each alert creates at most one task, even if that task is later deleted
+  useEffect(() => {
+    if (!settings.createTasks) return;
+    alerts.filter(alert => !handled.tasked.includes(alert.id)).forEach(addTask);
+  }, [alerts, settings.createTasks, handled.tasked, addTask]);
+
+  const describe = (alert: WeatherAlert) => {
+    const value = units.format(HAZARD_QUANTITIES[alert.hazard], alert.extreme);
+    const reading = alert.hazard === 'frost'
+      ? `Lows down to ${value}`
+      : alert.hazard === 'heat' ? `Highs up to ${value}` : `Up to ${value} of rain`;
+    const more = alert.days > 1 ? ` and ${alert.days - 1} more ${alert.days === 2 ? 'day' : 'days'}` : '';
+    return `${reading} on ${formatDay(alert.date)}${more}`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex justify-between items-center">
+          <span>Weather Alerts</span>
+          <Button variant="ghost" size="icon" title="Alert settings" onClick={() => setIsSettingsOpen(true)}>
+            <Settings className="h-4 w-4" />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {alerts.length === 0 ? (
+          <p className="text-gray-500">No frost, heat or heavy rain expected for sensitive crops.</p>
+        ) : (
+          <div className="space-y-2">
+            {alerts.map(alert => (
+              <Alert key={alert.id} variant={alert.hazard === 'heavyRain' ? 'default' : 'destructive'}>
+                {HAZARD_ICONS[alert.hazard]}
+                <AlertDescription>
+                  <div className="flex justify-between items-start gap-2">
+                    <div>
+                      <p className="font-bold">{HAZARD_LABELS[alert.hazard]} – {alert.farmName}</p>
+                      <p className="text-sm">{alert.crop}: {describe(alert)}</p>
+                    </div>
+                    <Button variant="ghost" size="icon" title="Dismiss" onClick={() => dismissAlert(alert.id)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="flex justify-end">
+                    <Button variant="ghost" size="sm" disabled={hasTask(alert)} onClick={() => addTask(alert)}>
+                      {hasTask(alert) ? 'Task added' : 'Add Task'}
+                    </Button>
+                  </div>
+                </AlertDescription>
+              </Alert>
+            ))}
+          </div>
+        )}
+      </CardContent>
+      <AlertSettingsDialog open={isSettingsOpen} onOpenChange={setIsSettingsOpen} />
+    </Card>
+  );
+};
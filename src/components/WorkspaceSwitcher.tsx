@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Building2, Check, Edit3, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { deleteDatabase } from "@/lib/db";
+import { createWorkspace, listWorkspaces, removeWorkspace, renameWorkspace } from "@/lib/workspaces";
+import { useFarmState, selectWorkspaceId, switchWorkspace } from "@/hooks/useFarmState";
+
+type WorkspaceDialog = { mode: 'create' | 'rename'; name: string } | { mode: 'delete' };
+
+export const WorkspaceSwitcher: React.FC = () => {
+  const activeId = useFarmState(selectWorkspaceId);
+  const [workspaces, setWorkspaces] = useState(listWorkspaces);
+  const [dialog, setDialog] = useState<WorkspaceDialog | null>(null);
+  const active = workspaces.find(workspace => workspace.id === activeId) || workspaces[0];
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!dialog || dialog.mode === 'delete' || !dialog.name.trim()) return;
+    if (dialog.mode === 'create') {
+      const workspace = createWorkspace(dialog.name);
+      await switchWorkspace(workspace.id);
+    } else {
+      renameWorkspace(active.id, dialog.name);
+    }
+    setWorkspaces(listWorkspaces());
+    setDialog(null);
+  };
+
+  const handleDelete = async () => {
+    try {
+      removeWorkspace(active.id);
+      const remaining = listWorkspaces();
+      await switchWorkspace(remaining[0].id);
+      setWorkspaces(remaining);
+      await deleteDatabase(active.id);
+    } catch (error) {
+      console.error('Error deleting workspace:', error);
+      toast.error(`Error deleting workspace: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    setDialog(null);
+  };
+
+  return (
+    <>
+      <DropdownMenu onOpenChange={(open) => open && setWorkspaces(listWorkspaces())}>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="max-w-[200px]">
+            <Building2 className="mr-2 h-4 w-4 shrink-0" />
+            <span className="truncate">{active.name}</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+          {workspaces.map(workspace => (
+            <DropdownMenuItem key={workspace.id} onClick={() => switchWorkspace(workspace.id)}>
+              <Check className={`mr-2 h-4 w-4 ${workspace.id === active.id ? '' : 'invisible'}`} />
+              <span className="truncate">{workspace.name}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setDialog({ mode: 'create', name: '' })}>
+            <Plus className="mr-2 h-4 w-4" />
+            <span>New Workspace</span>
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setDialog({ mode: 'rename', name: active.name })}>
+            <Edit3 className="mr-2 h-4 w-4" />
+            <span>Rename Workspace</span>
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            disabled={workspaces.length === 1}
+            onClick={() => setDialog({ mode: 'delete' })}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            <span>Delete Workspace</span>
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={!!dialog} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {dialog?.mode === 'create' ? 'New Workspace' : dialog?.mode === 'rename' ? 'Rename Workspace' : 'Delete Workspace'}
+            </DialogTitle>
+          </DialogHeader>
+          {dialog?.mode === 'delete' ? (
+            <div className="space-y-4">
+              <p>
+                Are you sure you want to delete <strong>{active.name}</strong>? All of its farms, tasks,
+                issues, crop plans and audit log will be permanently removed.
+              </p>
+              <Button onClick={handleDelete} className="w-full">Confirm</Button>
+              <Button variant="outline" onClick={() => setDialog(null)} className="w-full">Cancel</Button>
+            </div>
+          ) : dialog && (
+            <form onSubmit={handleSave} className="space-y-4">
+              <div>
+                <Label htmlFor="workspaceName">Workspace name</Label>
+                <Input
+                  id="workspaceName"
+                  value={dialog.name}
+                  onChange={(e) => setDialog({ ...dialog, name: e.target.value })}
+                  placeholder="e.g. Client farm"
+                  className="border rounded px-2 py-1"
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full">Save</Button>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,36 @@
+import { useSyncExternalStore } from 'react';
+import { createLocalPreference } from '@/lib/localPreference';
+import { DEFAULT_ALERT_SETTINGS } from '@/lib/alerts';
+import { formatLocalDate } from '@/lib/weather';
+
+const alertSettings = createLocalPreference('alertSettings', DEFAULT_ALERT_SETTINGS);
+
+// Alert ids end with the first affected day
+interface HandledAlerts {
+  dismissed: string[];
+  tasked: string[];  // Alerts a task was already created for
+}
+
+const handledAlerts = createLocalPreference<HandledAlerts>('handledAlerts', { dismissed: [], tasked: [] });
+
+// Ids of alerts that have passed are dropped so the lists do not grow forever
+const withCurrent = (ids: string[], id: string) => {
+  const today = formatLocalDate(new Date());
+  return [...ids.filter(existing => existing.slice(-10) >= today), id];
+};
+
+export const setAlertSettings = alertSettings.set;
+
+export const dismissAlert = (id: string) => {
+  const current = handledAlerts.get();
+  handledAlerts.set({ ...current, dismissed: withCurrent(current.dismissed, id) });
+};
+
+export const markAlertTasked = (id: string) => {
+  const current = handledAlerts.get();
+  handledAlerts.set({ ...current, tasked: withCurrent(current.tasked, id) });
+};
+
+export const useAlertSettings = () => useSyncExternalStore(alertSettings.subscribe, alertSettings.get);
+
+export const useHandledAlerts = () => useSyncExternalStore(handledAlerts.subscribe, handledAlerts.get);
@@ -0,0 +1,17 @@
+import { useSyncExternalStore } from 'react';
+import { createLocalPreference } from '@/lib/localPreference';
+import { createId } from '@/lib/ids';
+import type { AuditActor } from '@/lib/auditLog';
+
+// Kept per browser, so every tab of it records changes under the same device id
+const auditActor = createLocalPreference<AuditActor>('auditActor', { deviceId: '', name: '' });
+
+if (!auditActor.get().deviceId) {
+  auditActor.set({ ...auditActor.get(), deviceId: createId() });
+}
+
+export const getAuditActor = auditActor.get;
+
+export const setAuditActorName = (name: string) => auditActor.set({ ...auditActor.get(), name });
+
+export const useAuditActor = () => useSyncExternalStore(auditActor.subscribe, auditActor.get);
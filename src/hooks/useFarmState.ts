@@ -0,0 +1,508 @@
+import { useSyncExternalStore } from 'react';
+import { loadAllData, replaceAllData, saveChanges, FarmData } from '@/lib/farmRepository';
+import { createId } from '@/lib/ids';
+import { auditRepository, diffFarmData } from '@/lib/auditLog';
+import { getAuditActor } from './useAuditActor';
+import { getActiveWorkspaceId, setActiveWorkspaceId } from '@/lib/workspaces';
+import type { Quantity } from '@/lib/units';
+import {
+  applyFarmChanges,
+  diffFarmChanges,
+  hasFarmChanges,
+  CollectionChanges,
+  FarmChanges,
+  FarmCollection,
+  FARM_COLLECTIONS,
+} from '@/lib/farmChanges';
+import {
+  broadcastChanges,
+  createRevision,
+  isNewerRevision,
+  subscribeToRemoteChanges,
+  Revision,
+  SyncMessage,
+} from '@/lib/tabSync';
+import type {
+  Farm,
+  WaterUsage,
+  FertilizerUsage,
+  HarvestRecord,
+  RotationEntry,
+  PesticideApplication,
+  Task,
+  Issue,
+  CropPlanEvent,
+  Crop,
+} from '@/types/farm';
+
+export interface FarmState extends FarmData {
+  workspaceId: string;
+  isLoaded: boolean;
+  cropFilter: string;
+  past: FarmData[];
+  future: FarmData[];
+}
+
+export type HistoryKey = 'waterHistory' | 'fertilizerHistory' | 'harvestHistory' | 'rotationHistory' | 'pesticides';
+type HistoryRecord = WaterUsage | FertilizerUsage | HarvestRecord | RotationEntry | PesticideApplication;
+
+export type FarmAction =
+  | { type: 'hydrate'; workspaceId: string; data: FarmData }
+  | { type: 'replaceAll'; data: FarmData }
+  | { type: 'addFarm'; farm: Farm }
+  | { type: 'updateFarm'; farm: Farm }
+  | { type: 'deleteFarm'; farmId: string }
+  | { type: 'addRecord'; farmId: string; history: HistoryKey; record: HistoryRecord }
+  | { type: 'updateRecord'; farmId: string; history: HistoryKey; record: HistoryRecord }
+  | { type: 'deleteRecord'; farmId: string; history: HistoryKey; recordId: string }
+  | { type: 'saveTask'; task: Task }
+  | { type: 'deleteTask'; taskId: string }
+  | { type: 'reportIssue'; issue: Issue }
+  | { type: 'resolveIssue'; issueId: string }
+  | { type: 'addCropPlanEvents'; events: CropPlanEvent[] }
+  | { type: 'deleteCropPlanEvent'; eventId: string }
+  | { type: 'saveCrop'; crop: Crop }
+  | { type: 'setCropFilter'; crop: string }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'applyRemote'; changes: FarmChanges };
+
+const initialState: FarmState = {
+  workspaceId: '',
+  farms: [],
+  tasks: [],
+  issues: [],
+  cropPlanEvents: [],
+  crops: [],
+  isLoaded: false,
+  cropFilter: 'all',
+  past: [],
+  future: [],
+};
+
+const HISTORY_LIMIT = 50;
+
+// Actions that are not undoable: they either leave farm data alone or come from another tab
+const UNTRACKED_ACTIONS: FarmAction['type'][] = ['hydrate', 'setCropFilter', 'undo', 'redo', 'applyRemote'];
+
+// Actions whose result is already in the database and must not be persisted or broadcast again
+const UNPERSISTED_ACTIONS: FarmAction['type'][] = ['hydrate', 'setCropFilter', 'applyRemote'];
+
+const dataOf = ({ farms, tasks, issues, cropPlanEvents, crops }: FarmState): FarmData =>
+  ({ farms, tasks, issues, cropPlanEvents, crops });
+
+const upsert = <T extends { id: string }>(items: T[], item: T) =>
+  items.some(i => i.id === item.id)
+    ? items.map(i => i.id === item.id ? item : i)
+    : [...items, item];
+
+const historyOf = (farm: Farm, history: HistoryKey): HistoryRecord[] => farm[history] || [];
+
+const mapFarm = (state: FarmState, farmId: string, update: (farm: Farm) => Farm): FarmState => ({
+  ...state,
+  farms: state.farms.map(farm => farm.id === farmId ? update(farm) : farm),
+});
+
+const applyAction = (state: FarmState, action: FarmAction): FarmState => {
+  switch (action.type) {
+    case 'hydrate':
+      return { ...state, ...action.data, workspaceId: action.workspaceId, isLoaded: true, past: [], future: [] };
+    case 'replaceAll':
+      return { ...state, ...action.data };
+    case 'addFarm':
+    case 'updateFarm':
+      return { ...state, farms: upsert(state.farms, action.farm) };
+    case 'deleteFarm':
+      return { ...state, farms: state.farms.filter(farm => farm.id !== action.farmId) };
+    case 'addRecord':
+      return mapFarm(state, action.farmId, farm => ({
+        ...farm,
+        [action.history]: [...historyOf(farm, action.history), action.record],
+      }));
+    case 'updateRecord': {
+      // A record edited onto a different farm is moved there
+      const { farmId, history, record } = action;
+      return {
+        ...state,
+        farms: state.farms.map(farm => {
+          const records = historyOf(farm, history);
+          if (farm.id === farmId) return { ...farm, [history]: upsert(records, record) };
+          if (records.some(r => r.id === record.id)) {
+            return { ...farm, [history]: records.filter(r => r.id !== record.id) };
+          }
+          return farm;
+        }),
+      };
+    }
+    case 'deleteRecord':
+      return mapFarm(state, action.farmId, farm => ({
+        ...farm,
+        [action.history]: historyOf(farm, action.history).filter(r => r.id !== action.recordId),
+      }));
+    case 'saveTask':
+      return { ...state, tasks: upsert(state.tasks, action.task) };
+    case 'deleteTask':
+      return { ...state, tasks: state.tasks.filter(task => task.id !== action.taskId) };
+    case 'reportIssue':
+      return { ...state, issues: upsert(state.issues, action.issue) };
+    case 'resolveIssue':
+      return { ...state, issues: state.issues.filter(issue => issue.id !== action.issueId) };
+    case 'addCropPlanEvents':
+      return { ...state, cropPlanEvents: action.events.reduce(upsert, state.cropPlanEvents) };
+    case 'deleteCropPlanEvent':
+      return { ...state, cropPlanEvents: state.cropPlanEvents.filter(event => event.id !== action.eventId) };
+    case 'saveCrop':
+      return { ...state, crops: upsert(state.crops, action.crop) };
+    case 'setCropFilter':
+      return { ...state, cropFilter: action.crop };
+    case 'undo': {
+      const previous = state.past[state.past.length - 1];
+      if (!previous) return state;
+      return {
+        ...state,
+        ...previous,
+        past: state.past.slice(0, -1),
+        future: [dataOf(state), ...state.future],
+      };
+    }
+    case 'redo': {
+      const [next, ...future] = state.future;
+      if (!next) return state;
+      return { ...state, ...next, past: [...state.past, dataOf(state)], future };
+    }
+    case 'applyRemote':
+      // Undo snapshots get the same changes so undoing never reverts another tab's edit
+      return {
+        ...state,
+        ...applyFarmChanges(dataOf(state), action.changes),
+        past: state.past.map(data => applyFarmChanges(data, action.changes)),
+        future: state.future.map(data => applyFarmChanges(data, action.changes)),
+      };
+    default:
+      return state;
+  }
+};
+
+// Snapshots the farm data before every tracked change so it can be undone
+export const farmReducer = (state: FarmState, action: FarmAction): FarmState => {
+  const next = applyAction(state, action);
+  if (next === state || UNTRACKED_ACTIONS.includes(action.type)) return next;
+  return {
+    ...next,
+    past: [...state.past, dataOf(state)].slice(-HISTORY_LIMIT),
+    future: [],
+  };
+};
+
+let state = initialState;
+const listeners = new Set<() => void>();
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const getState = () => state;
+
+// Rejects when the change could not be saved, after putting the previous state back
+const dispatch = async (action: FarmAction): Promise<void> => {
+  const prev = state;
+  // Everything below goes to the workspace the action was applied to, even if another
+  // is switched to while saving
+  const { workspaceId } = prev;
+  state = farmReducer(state, action);
+  if (state === prev) return;
+  listeners.forEach(listener => listener());
+
+  if (UNPERSISTED_ACTIONS.includes(action.type)) return;
+  const changes = diffFarmChanges(dataOf(prev), dataOf(state));
+  if (!hasFarmChanges(changes)) return;
+  const revision = createRevision();
+  const previousRevisions = recordRevisions(changes, revision);
+  try {
+    if (action.type === 'replaceAll') {
+      await replaceAllData(action.data, workspaceId);
+    } else {
+      await saveChanges(changes, workspaceId);
+    }
+  } catch (error) {
+    console.error('Error saving farm data:', error);
+    state = prev;
+    restoreRevisions(previousRevisions);
+    listeners.forEach(listener => listener());
+    throw error;
+  }
+  broadcastChanges({ workspaceId, revision, changes });
+  try {
+    await auditRepository.append(diffFarmData(dataOf(prev), dataOf(state)), action.type, getAuditActor(), workspaceId);
+  } catch (error) {
+    console.error('Error writing audit log:', error);
+  }
+};
+
+// Last write per record, used to settle edits made in several tabs at nearly the same time
+const revisions = new Map<string, Revision>();
+const revisionKey = (collection: FarmCollection, id: string) => `${collection}:${id}`;
+
+// Returns the revisions it replaced so they can be restored if the write fails
+const recordRevisions = (changes: FarmChanges, revision: Revision) => {
+  const replaced = new Map<string, Revision | undefined>();
+  FARM_COLLECTIONS.forEach(collection => {
+    const { put, removed } = changes[collection];
+    [...put.map(item => item.id), ...removed].forEach(id => {
+      const key = revisionKey(collection, id);
+      replaced.set(key, revisions.get(key));
+      revisions.set(key, revision);
+    });
+  });
+  return replaced;
+};
+
+const restoreRevisions = (replaced: Map<string, Revision | undefined>) => {
+  replaced.forEach((revision, key) => {
+    if (revision) {
+      revisions.set(key, revision);
+    } else {
+      revisions.delete(key);
+    }
+  });
+};
+
+// Remote writes older than this tab's own write to the same record are dropped
+const handleRemoteChanges = ({ workspaceId, revision, changes }: SyncMessage) => {
+  if (workspaceId !== state.workspaceId) return;
+  const isAccepted = (collection: FarmCollection, id: string) =>
+    isNewerRevision(revision, revisions.get(revisionKey(collection, id)));
+
+  const accept = <T extends { id: string }>(collection: FarmCollection, { put, removed }: CollectionChanges<T>) => ({
+    put: put.filter(item => isAccepted(collection, item.id)),
+    removed: removed.filter(id => isAccepted(collection, id)),
+  });
+
+  // The winning local version is rewritten in case the losing remote write reached the database last
+  const keepLocal = <T extends { id: string }>(
+    collection: FarmCollection,
+    { put, removed }: CollectionChanges<T>,
+    current: T[]
+  ): CollectionChanges<T> => {
+    const staleIds = new Set([...put.map(item => item.id), ...removed].filter(id => !isAccepted(collection, id)));
+    return {
+      put: current.filter(item => staleIds.has(item.id)),
+      removed: Array.from(staleIds).filter(id => !current.some(item => item.id === id)),
+    };
+  };
+
+  const accepted: FarmChanges = {
+    farms: accept('farms', changes.farms),
+    tasks: accept('tasks', changes.tasks),
+    issues: accept('issues', changes.issues),
+    cropPlanEvents: accept('cropPlanEvents', changes.cropPlanEvents),
+    crops: accept('crops', changes.crops),
+  };
+  const stale: FarmChanges = {
+    farms: keepLocal('farms', changes.farms, state.farms),
+    tasks: keepLocal('tasks', changes.tasks, state.tasks),
+    issues: keepLocal('issues', changes.issues, state.issues),
+    cropPlanEvents: keepLocal('cropPlanEvents', changes.cropPlanEvents, state.cropPlanEvents),
+    crops: keepLocal('crops', changes.crops, state.crops),
+  };
+
+  recordRevisions(accepted, revision);
+  if (hasFarmChanges(accepted)) dispatch({ type: 'applyRemote', changes: accepted });
+  if (hasFarmChanges(stale)) {
+    saveChanges(stale, workspaceId).catch(error => console.error('Error saving farm data:', error));
+  }
+};
+
+subscribeToRemoteChanges(handleRemoteChanges);
+
+export const farmStore = { getState, subscribe, dispatch };
+
+// Only the latest load is applied, so overlapping workspace switches cannot hydrate out of order
+let latestLoad = 0;
+
+export const loadFarmState = async () => {
+  const workspaceId = getActiveWorkspaceId();
+  const load = ++latestLoad;
+  try {
+    const data = await loadAllData(workspaceId);
+    if (load !== latestLoad || workspaceId !== getActiveWorkspaceId()) return;
+    revisions.clear();
+    dispatch({ type: 'hydrate', workspaceId, data });
+  } catch (error) {
+    console.error('Error loading farm data:', error);
+  }
+};
+
+export const switchWorkspace = async (workspaceId: string) => {
+  setActiveWorkspaceId(workspaceId);
+  await loadFarmState();
+};
+
+export function useFarmState<T>(selector: (state: FarmState) => T): T {
+  return useSyncExternalStore(subscribe, () => selector(getState()));
+}
+
+// Action creators assign ids so the reducer stays pure
+export const farmActions = {
+  addFarm: (farm: Omit<Farm, 'id'>) => dispatch({ type: 'addFarm', farm: { ...farm, id: createId() } }),
+  updateFarm: (farm: Farm) => dispatch({ type: 'updateFarm', farm }),
+  deleteFarm: (farmId: string) => dispatch({ type: 'deleteFarm', farmId }),
+  recordWater: (farmId: string, record: Omit<WaterUsage, 'id'>) =>
+    dispatch({ type: 'addRecord', farmId, history: 'waterHistory', record: { ...record, id: createId() } }),
+  recordFertilizer: (farmId: string, record: Omit<FertilizerUsage, 'id'>) =>
+    dispatch({ type: 'addRecord', farmId, history: 'fertilizerHistory', record: { ...record, id: createId() } }),
+  recordHarvest: (farmId: string, record: Omit<HarvestRecord, 'id'>) =>
+    dispatch({ type: 'addRecord', farmId, history: 'harvestHistory', record: { ...record, id: createId() } }),
+  recordRotation: (farmId: string, record: Omit<RotationEntry, 'id'>) =>
+    dispatch({ type: 'addRecord', farmId, history: 'rotationHistory', record: { ...record, id: createId() } }),
+  recordPesticide: (farmId: string, record: Omit<PesticideApplication, 'id'>) =>
+    dispatch({ type: 'addRecord', farmId, history: 'pesticides', record: { ...record, id: createId() } }),
+  updateRecord: (farmId: string, history: HistoryKey, record: HistoryRecord) =>
+    dispatch({ type: 'updateRecord', farmId, history, record }),
+  deleteRecord: (farmId: string, history: HistoryKey, recordId: string) =>
+    dispatch({ type: 'deleteRecord', farmId, history, recordId }),
+  saveTask: (task: Task) => dispatch({ type: 'saveTask', task }),
+  addTask: (task: Omit<Task, 'id'>) => dispatch({ type: 'saveTask', task: { ...task, id: createId() } }),
+  deleteTask: (taskId: string) => dispatch({ type: 'deleteTask', taskId }),
+  reportIssue: (issue: Omit<Issue, 'id'>) => dispatch({ type: 'reportIssue', issue: { ...issue, id: createId() } }),
+  resolveIssue: (issueId: string) => dispatch({ type: 'resolveIssue', issueId }),
+  addCropPlanEvents: (events: CropPlanEvent[]) => dispatch({ type: 'addCropPlanEvents', events }),
+  deleteCropPlanEvent: (eventId: string) => dispatch({ type: 'deleteCropPlanEvent', eventId }),
+  saveCrop: (crop: Omit<Crop, 'id'> & { id?: string }) =>
+    dispatch({ type: 'saveCrop', crop: { ...crop, id: crop.id || createId() } }),
+  replaceAll: (data: FarmData) => dispatch({ type: 'replaceAll', data }),
+  setCropFilter: (crop: string) => dispatch({ type: 'setCropFilter', crop }),
+  undo: () => dispatch({ type: 'undo' }),
+  redo: () => dispatch({ type: 'redo' }),
+};
+
+// Recomputes only when one of the selected inputs changes identity
+const createSelector = <D extends unknown[], R>(
+  getInputs: (state: FarmState) => [...D],
+  compute: (...inputs: D) => R
+) => {
+  let lastInputs: D | null = null;
+  let lastResult: R;
+  return (current: FarmState): R => {
+    const inputs = getInputs(current) as D;
+    if (!lastInputs || inputs.some((input, index) => input !== lastInputs![index])) {
+      lastInputs = inputs;
+      lastResult = compute(...inputs);
+    }
+    return lastResult;
+  };
+};
+
+export const selectFarms = (current: FarmState) => current.farms;
+export const selectTasks = (current: FarmState) => current.tasks;
+export const selectIssues = (current: FarmState) => current.issues;
+export const selectCropPlanEvents = (current: FarmState) => current.cropPlanEvents;
+export const selectCrops = (current: FarmState) => current.crops;
+export const selectCropFilter = (current: FarmState) => current.cropFilter;
+export const selectWorkspaceId = (current: FarmState) => current.workspaceId;
+export const selectCanUndo = (current: FarmState) => current.past.length > 0;
+export const selectCanRedo = (current: FarmState) => current.future.length > 0;
+
+export const selectFarmData = createSelector(
+  current => [current.farms, current.tasks, current.issues, current.cropPlanEvents, current.crops],
+  (farms: Farm[], tasks: Task[], issues: Issue[], cropPlanEvents: CropPlanEvent[], crops: Crop[]): FarmData =>
+    ({ farms, tasks, issues, cropPlanEvents, crops })
+);
+
+export const selectFilteredFarms = createSelector(
+  current => [current.farms, current.cropFilter],
+  (farms: Farm[], cropFilter: string) =>
+    cropFilter === 'all' ? farms : farms.filter(farm => farm.crop === cropFilter)
+);
+
+export const selectUniqueCrops = createSelector(
+  current => [current.farms],
+  (farms: Farm[]) => ['all', ...Array.from(new Set(farms.map(farm => farm.crop)))]
+);
+
+interface HistoryEntryBase {
+  history: HistoryKey;
+  date: Date;
+  farm: string;
+  farmId: string;
+  recordId: string;
+  amount?: number;  // Canonical value of quantity
+  quantity?: Quantity;
+  crop?: string;
+  endDate?: Date;
+}
+
+// The type tells which record the entry was made from
+export type HistoryEntry = HistoryEntryBase & (
+  | { type: 'Water Usage'; usage: WaterUsage }
+  | { type: 'Fertilizer Usage'; fertilizer: FertilizerUsage }
+  | { type: 'Harvest'; harvest: HarvestRecord }
+  | { type: 'Crop Rotation'; rotation: RotationEntry }
+  | { type: 'Pesticide Application'; pesticide: PesticideApplication }
+);
+
+export const selectAllHistory = createSelector(
+  current => [current.farms],
+  (farms: Farm[]): HistoryEntry[] => farms
+    .flatMap(farm => [
+      ...farm.waterHistory.map(usage => ({
+        type: 'Water Usage' as const,
+        history: 'waterHistory' as const,
+        date: new Date(usage.date),
+        farm: farm.name,
+        amount: usage.amount,
+        quantity: 'water' as const,
+        farmId: farm.id,
+        recordId: usage.id,
+        usage
+      })),
+      ...farm.fertilizerHistory.map(fertilizer => ({
+        type: 'Fertilizer Usage' as const,
+        history: 'fertilizerHistory' as const,
+        date: new Date(fertilizer.date),
+        farm: farm.name,
+        amount: fertilizer.amount,
+        quantity: 'fertilizer' as const,
+        farmId: farm.id,
+        recordId: fertilizer.id,
+        fertilizer
+      })),
+      ...farm.harvestHistory.map(harvest => ({
+        type: 'Harvest' as const,
+        history: 'harvestHistory' as const,
+        date: new Date(harvest.date),
+        farm: farm.name,
+        amount: harvest.weight,
+        quantity: 'harvest' as const,
+        farmId: farm.id,
+        recordId: harvest.id,
+        harvest
+      })),
+      ...(farm.rotationHistory || []).map(rotation => ({
+        type: 'Crop Rotation' as const,
+        history: 'rotationHistory' as const,
+        date: new Date(rotation.startDate),
+        endDate: new Date(rotation.endDate),
+        farm: farm.name,
+        crop: rotation.crop,
+        farmId: farm.id,
+        recordId: rotation.id,
+        rotation
+      })),
+      ...(farm.pesticides || []).map(pesticide => ({
+        type: 'Pesticide Application' as const,
+        history: 'pesticides' as const,
+        date: new Date(pesticide.date),
+        farm: farm.name,
+        amount: pesticide.amount,
+        quantity: 'pesticide' as const,
+        farmId: farm.id,
+        recordId: pesticide.id,
+        pesticide
+      }))
+    ])
+    .sort((a, b) => b.date.getTime() - a.date.getTime())
+);
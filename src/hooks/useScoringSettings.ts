@@ -0,0 +1,37 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { createLocalPreference } from '@/lib/localPreference';
+import { DEFAULT_SCORING, withScoringDefaults, type ScoringProfile, type ScoringSettings } from '@/lib/scoring';
+
+interface ScoringPreferences {
+  current: ScoringSettings;
+  profiles: ScoringProfile[];  // Saved by the user, in addition to the built-in ones
+}
+
+const scoringPreferences = createLocalPreference<ScoringPreferences>('scoringSettings', {
+  current: DEFAULT_SCORING,
+  profiles: [],
+});
+
+export const setScoringSettings = (current: ScoringSettings) =>
+  scoringPreferences.set({ ...scoringPreferences.get(), current });
+
+// Saving under an existing name replaces that profile
+export const saveScoringProfile = (name: string) => {
+  const { current, profiles } = scoringPreferences.get();
+  scoringPreferences.set({
+    current,
+    profiles: [...profiles.filter(profile => profile.name !== name), { name, settings: current }],
+  });
+};
+
+export const deleteScoringProfile = (name: string) => {
+  const preferences = scoringPreferences.get();
+  scoringPreferences.set({ ...preferences, profiles: preferences.profiles.filter(profile => profile.name !== name) });
+};
+
+export const useScoringPreferences = () => useSyncExternalStore(scoringPreferences.subscribe, scoringPreferences.get);
+
+export const useScoringSettings = () => {
+  const { current } = useScoringPreferences();
+  return useMemo(() => withScoringDefaults(current), [current]);
+};
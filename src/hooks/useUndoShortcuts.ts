@@ -0,0 +1,30 @@
+import { useEffect } from 'react';
+import { farmActions } from './useFarmState';
+
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), leaving text fields their native undo
+export const useUndoShortcuts = () => {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isTextField(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z') {
+        event.preventDefault();
+        if (event.shiftKey) {
+          farmActions.redo();
+        } else {
+          farmActions.undo();
+        }
+      } else if (key === 'y') {
+        event.preventDefault();
+        farmActions.redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+};
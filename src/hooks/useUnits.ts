@@ -0,0 +1,32 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { createLocalPreference } from '@/lib/localPreference';
+import {
+  DEFAULT_UNIT_PREFERENCES,
+  formatQuantity,
+  formatYield,
+  fromDisplay,
+  toDisplay,
+  toInputValue,
+  unitSymbol,
+  type Quantity,
+} from '@/lib/units';
+
+const unitPreferences = createLocalPreference('unitPreferences', DEFAULT_UNIT_PREFERENCES);
+
+export const setUnitPreferences = unitPreferences.set;
+
+export const useUnits = () => {
+  const current = useSyncExternalStore(unitPreferences.subscribe, unitPreferences.get);
+
+  const format = useCallback((quantity: Quantity, value: number) => formatQuantity(current, quantity, value), [current]);
+
+  return useMemo(() => ({
+    preferences: current,
+    format,
+    formatYield: (weight: number, area: number) => formatYield(current, weight, area),
+    symbol: (quantity: Quantity) => unitSymbol(current, quantity),
+    toDisplay: (quantity: Quantity, value: number) => toDisplay(current, quantity, value),
+    fromDisplay: (quantity: Quantity, value: number) => fromDisplay(current, quantity, value),
+    toInput: (quantity: Quantity, value: number) => toInputValue(current, quantity, value),
+  }), [current, format]);
+};
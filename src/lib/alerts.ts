@@ -0,0 +1,80 @@
+import type { Crop, Farm, WeatherData, WeatherHazard } from '@/types/farm';
+import { WEATHER_HAZARDS, cropSettings } from './crops';
+import { formatLocalDate } from './weather';
+
+export interface AlertRule {
+  enabled: boolean;
+  threshold: number;  // °C for frost and heat, mm for heavy rain
+}
+
+export type AlertSettings = Record<WeatherHazard, AlertRule> & {
+  createTasks: boolean;  // Add a task for every new alert automatically
+};
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  frost: { enabled: true, threshold: 0 },
+  heat: { enabled: true, threshold: 32 },
+  heavyRain: { enabled: true, threshold: 25 },
+  createTasks: false,
+};
+
+export const HAZARD_LABELS: Record<WeatherHazard, string> = {
+  frost: 'Frost',
+  heat: 'Heat stress',
+  heavyRain: 'Heavy rain',
+};
+
+// Each hazard reads one daily value and fires when it crosses the threshold
+const HAZARD_CHECKS: Record<WeatherHazard, {
+  reading: (day: WeatherData) => number | undefined;
+  exceeds: (value: number, threshold: number) => boolean;
+}> = {
+  frost: { reading: day => day.tempMin, exceeds: (value, threshold) => value <= threshold },
+  heat: { reading: day => day.temp, exceeds: (value, threshold) => value >= threshold },
+  heavyRain: { reading: day => day.precipitation, exceeds: (value, threshold) => value >= threshold },
+};
+
+export interface WeatherAlert {
+  id: string;  // Stable across reloads so dismissals and created tasks can be remembered
+  hazard: WeatherHazard;
+  farmId: string;
+  farmName: string;
+  crop: string;
+  date: string;  // First affected day
+  days: number;
+  extreme: number;  // Lowest minimum for frost, highest value otherwise
+}
+
+// One alert per farm and hazard, covering every affected day in the forecast
+export const evaluateAlerts = (
+  farms: Farm[],
+  forecastFor: (farm: Farm) => WeatherData[],
+  crops: Crop[],
+  settings: AlertSettings,
+  today = formatLocalDate(new Date())
+): WeatherAlert[] =>
+  farms.filter(farm => farm.crop.trim()).flatMap(farm => {
+    const { sensitivities } = cropSettings(crops, farm.crop);
+    const forecast = forecastFor(farm).filter(day => day.date >= today);
+    return WEATHER_HAZARDS
+      .filter(hazard => settings[hazard].enabled && sensitivities.includes(hazard))
+      .flatMap(hazard => {
+        const { reading, exceeds } = HAZARD_CHECKS[hazard];
+        const values = forecast
+          .map(day => ({ date: day.date, value: reading(day) }))
+          .filter((day): day is { date: string; value: number } =>
+            day.value !== undefined && exceeds(day.value, settings[hazard].threshold));
+        if (values.length === 0) return [];
+        const readings = values.map(day => day.value);
+        return [{
+          id: `${hazard}:${farm.id}:${values[0].date}`,
+          hazard,
+          farmId: farm.id,
+          farmName: farm.name,
+          crop: farm.crop,
+          date: values[0].date,
+          days: values.length,
+          extreme: hazard === 'frost' ? Math.min(...readings) : Math.max(...readings),
+        }];
+      });
+  });
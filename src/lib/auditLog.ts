@@ -0,0 +1,214 @@
+import { openDatabase, requestToPromise, transactionDone, AUDIT_STORE } from './db';
+import { createId } from './ids';
+import { isSameRecord } from './importMerge';
+import type { FarmData } from './farmRepository';
+import type { Farm } from '@/types/farm';
+
+export type AuditOperation = 'create' | 'update' | 'delete';
+export type AuditEntity =
+  | 'farm'
+  | 'water'
+  | 'fertilizer'
+  | 'harvest'
+  | 'rotation'
+  | 'pesticide'
+  | 'task'
+  | 'issue'
+  | 'cropPlanEvent'
+  | 'crop';
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  operation: AuditOperation;
+  entity: AuditEntity;
+  entityId: string;
+  label: string;
+  farmId?: string;
+  source: string;  // Store action that caused the change, e.g. 'deleteFarm' or 'undo'
+  deviceId?: string;  // Browser the change was made in; missing on entries from before it was recorded
+  actorName?: string;  // Name entered on that browser, if any
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+}
+
+type AuditChange = Omit<AuditEntry, 'id' | 'timestamp' | 'source' | 'deviceId' | 'actorName'>;
+
+// Who made a change, as far as a local app can tell
+export interface AuditActor {
+  deviceId: string;
+  name: string;
+}
+type AuditRecord = { id: string } & object;
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntity, string> = {
+  farm: 'Farm',
+  water: 'Water Usage',
+  fertilizer: 'Fertilizer Usage',
+  harvest: 'Harvest',
+  rotation: 'Crop Rotation',
+  pesticide: 'Pesticide Application',
+  task: 'Task',
+  issue: 'Issue',
+  cropPlanEvent: 'Crop Plan Event',
+  crop: 'Crop',
+};
+
+const FARM_HISTORIES: [keyof Farm, AuditEntity][] = [
+  ['waterHistory', 'water'],
+  ['fertilizerHistory', 'fertilizer'],
+  ['harvestHistory', 'harvest'],
+  ['rotationHistory', 'rotation'],
+  ['pesticides', 'pesticide'],
+];
+
+const snapshot = (record: object) => JSON.parse(JSON.stringify(record)) as Record<string, unknown>;
+
+// Farm snapshots leave out the history arrays, which are logged record by record
+const farmFields = (farm: Farm) => {
+  const fields: Record<string, unknown> = { ...farm };
+  FARM_HISTORIES.forEach(([key]) => delete fields[key]);
+  return fields;
+};
+
+const diffCollection = <T extends AuditRecord>(
+  prev: T[],
+  next: T[],
+  describe: (record: T) => Omit<AuditChange, 'operation' | 'before' | 'after'>,
+  fields: (record: T) => object = record => record
+): AuditChange[] => {
+  const prevById = new Map(prev.map(record => [record.id, record]));
+  const nextIds = new Set(next.map(record => record.id));
+  const changes: AuditChange[] = [];
+
+  next.forEach(record => {
+    const before = prevById.get(record.id);
+    if (!before) {
+      changes.push({ ...describe(record), operation: 'create', after: snapshot(fields(record)) });
+    } else if (before !== record && !isSameRecord(fields(before), fields(record))) {
+      changes.push({
+        ...describe(record),
+        operation: 'update',
+        before: snapshot(fields(before)),
+        after: snapshot(fields(record)),
+      });
+    }
+  });
+  prev.filter(record => !nextIds.has(record.id)).forEach(record => {
+    changes.push({ ...describe(record), operation: 'delete', before: snapshot(fields(record)) });
+  });
+  return changes;
+};
+
+const recordLabel = (farm: Farm, record: Record<string, unknown>) =>
+  `${farm.name}: ${record.crop || record.type || `${record.amount}`} (${record.date || record.startDate})`;
+
+export const diffFarmData = (prev: FarmData, next: FarmData): AuditChange[] => {
+  const farmChanges = diffCollection(
+    prev.farms,
+    next.farms,
+    farm => ({ entity: 'farm', entityId: farm.id, label: farm.name, farmId: farm.id }),
+    farmFields
+  );
+
+  // Records of a farm that was created or deleted are logged along with it
+  const prevFarms = new Map(prev.farms.map(farm => [farm.id, farm]));
+  const nextFarms = new Map(next.farms.map(farm => [farm.id, farm]));
+  const farmIds = Array.from(new Set([...prevFarms.keys(), ...nextFarms.keys()]));
+  const recordChanges = farmIds.flatMap(farmId => {
+    const before = prevFarms.get(farmId);
+    const after = nextFarms.get(farmId);
+    if (before === after) return [];
+    const farm = (after || before)!;
+    return FARM_HISTORIES.flatMap(([key, entity]) => diffCollection(
+      ((before?.[key] || []) as AuditRecord[]),
+      ((after?.[key] || []) as AuditRecord[]),
+      record => ({
+        entity,
+        entityId: record.id,
+        label: recordLabel(farm, record as Record<string, unknown>),
+        farmId,
+      })
+    ));
+  });
+
+  return [
+    ...farmChanges,
+    ...recordChanges,
+    ...diffCollection(prev.tasks, next.tasks, task => ({ entity: 'task', entityId: task.id, label: task.title })),
+    ...diffCollection(prev.issues, next.issues, issue => ({
+      entity: 'issue',
+      entityId: issue.id,
+      label: `${issue.type}: ${issue.description}`,
+    })),
+    ...diffCollection(prev.cropPlanEvents, next.cropPlanEvents, event => ({
+      entity: 'cropPlanEvent',
+      entityId: event.id,
+      label: event.title,
+      farmId: event.farmId,
+    })),
+    ...diffCollection(prev.crops, next.crops, crop => ({ entity: 'crop', entityId: crop.id, label: crop.name })),
+  ];
+};
+
+const listeners = new Set<() => void>();
+
+export const subscribeToAuditLog = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Entries can only ever be added; there is deliberately no update or delete
+export const auditRepository = {
+  async append(changes: AuditChange[], source: string, actor: AuditActor, workspaceId?: string): Promise<AuditEntry[]> {
+    if (changes.length === 0) return [];
+    const timestamp = new Date().toISOString();
+    const entries = changes.map(change => ({
+      ...change,
+      id: createId(),
+      timestamp,
+      source,
+      deviceId: actor.deviceId,
+      actorName: actor.name.trim() || undefined,
+    }));
+    const db = await openDatabase(workspaceId);
+    const transaction = db.transaction(AUDIT_STORE, 'readwrite');
+    const store = transaction.objectStore(AUDIT_STORE);
+    entries.forEach(entry => store.add(entry));
+    await transactionDone(transaction);
+    listeners.forEach(listener => listener());
+    return entries;
+  },
+
+  // Newest first
+  async list(): Promise<AuditEntry[]> {
+    const db = await openDatabase();
+    const transaction = db.transaction(AUDIT_STORE, 'readonly');
+    const entries = await requestToPromise<AuditEntry[]>(
+      transaction.objectStore(AUDIT_STORE).index('timestamp').getAll()
+    );
+    return entries.reverse();
+  },
+};
+
+export const auditActorLabel = (entry: AuditEntry) => {
+  if (entry.actorName) return entry.actorName;
+  return entry.deviceId ? `Device ${entry.deviceId.slice(0, 8)}` : 'Unknown';
+};
+
+const CSV_COLUMNS: (keyof AuditEntry)[] = [
+  'timestamp', 'operation', 'entity', 'entityId', 'label', 'farmId', 'source', 'actorName', 'deviceId', 'before', 'after',
+];
+
+const csvCell = (value: unknown) => {
+  if (value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const auditLogToCsv = (entries: AuditEntry[]) => [
+  CSV_COLUMNS.join(','),
+  ...entries.map(entry => CSV_COLUMNS.map(column => csvCell(entry[column])).join(',')),
+].join('\n');
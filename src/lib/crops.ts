@@ -0,0 +1,105 @@
+import type { Crop, WeatherHazard } from '@/types/farm';
+
+export type CropSettings = Required<Omit<Crop, 'id' | 'name'>>;
+
+export const WEATHER_HAZARDS: WeatherHazard[] = ['frost', 'heat', 'heavyRain'];
+
+// Typical selling units, their weights, the weather the crop is vulnerable to, the
+// heat units it needs to mature, its rooting depth and FAO-56 crop coefficients,
+// used until a crop is given its own settings
+const CROP_CATALOGUE: Record<string, CropSettings> = {
+  corn: {
+    harvestUnit: 'bu', kgPerUnit: 25.4, sensitivities: ['frost', 'heat'],
+    baseTemp: 10, maturityGdd: 1500, rootDepth: 1.2, kc: { initial: 0.3, mid: 1.2, end: 0.6 },
+  },
+  wheat: {
+    harvestUnit: 'bu', kgPerUnit: 27.2, sensitivities: ['heat', 'heavyRain'],
+    baseTemp: 0, maturityGdd: 2000, rootDepth: 1.2, kc: { initial: 0.4, mid: 1.15, end: 0.3 },
+  },
+  soybean: {
+    harvestUnit: 'bu', kgPerUnit: 27.2, sensitivities: ['frost'],
+    baseTemp: 10, maturityGdd: 1300, rootDepth: 0.9, kc: { initial: 0.4, mid: 1.15, end: 0.5 },
+  },
+  barley: {
+    harvestUnit: 'bu', kgPerUnit: 21.8, sensitivities: ['heat'],
+    baseTemp: 0, maturityGdd: 1600, rootDepth: 1.2, kc: { initial: 0.3, mid: 1.15, end: 0.25 },
+  },
+  oat: {
+    harvestUnit: 'bu', kgPerUnit: 14.5, sensitivities: ['heat'],
+    baseTemp: 0, maturityGdd: 1500, rootDepth: 1.2, kc: { initial: 0.3, mid: 1.15, end: 0.25 },
+  },
+  sorghum: {
+    harvestUnit: 'bu', kgPerUnit: 25.4, sensitivities: ['frost'],
+    baseTemp: 10, maturityGdd: 1400, rootDepth: 1.2, kc: { initial: 0.3, mid: 1, end: 0.55 },
+  },
+  rice: {
+    harvestUnit: 'bu', kgPerUnit: 20.4, sensitivities: ['heat'],
+    baseTemp: 10, maturityGdd: 1800, rootDepth: 0.5, kc: { initial: 1.05, mid: 1.2, end: 0.9 },
+  },
+  potato: {
+    harvestUnit: 'cwt', kgPerUnit: 45.36, sensitivities: ['frost', 'heavyRain'],
+    baseTemp: 7, maturityGdd: 1400, rootDepth: 0.5, kc: { initial: 0.5, mid: 1.15, end: 0.75 },
+  },
+  tomato: {
+    harvestUnit: 'lb', kgPerUnit: 0.4536, sensitivities: ['frost', 'heat', 'heavyRain'],
+    baseTemp: 10, maturityGdd: 1200, rootDepth: 0.9, kc: { initial: 0.6, mid: 1.15, end: 0.8 },
+  },
+  lettuce: {
+    harvestUnit: 'head', kgPerUnit: 0.5, sensitivities: ['heat'],
+    baseTemp: 4, maturityGdd: 800, rootDepth: 0.4, kc: { initial: 0.7, mid: 1, end: 0.95 },
+  },
+  strawberry: {
+    harvestUnit: 'flat', kgPerUnit: 3.6, sensitivities: ['frost', 'heavyRain'],
+    baseTemp: 5, maturityGdd: 900, rootDepth: 0.3, kc: { initial: 0.4, mid: 0.85, end: 0.75 },
+  },
+  apple: {
+    harvestUnit: 'bin', kgPerUnit: 400, sensitivities: ['frost'],
+    baseTemp: 5, maturityGdd: 1800, rootDepth: 1.5, kc: { initial: 0.5, mid: 1.2, end: 0.85 },
+  },
+};
+
+// Unknown crops are assumed to be sensitive to everything so no warning is missed
+export const DEFAULT_CROP_SETTINGS: CropSettings = {
+  harvestUnit: 'kg',
+  kgPerUnit: 1,
+  sensitivities: WEATHER_HAZARDS,
+  baseTemp: 10,
+  maturityGdd: 1400,
+  rootDepth: 1,
+  kc: { initial: 0.5, mid: 1.05, end: 0.7 },
+};
+
+// Bushel weight for grain crops missing from the catalogue
+export const STANDARD_BUSHEL_KG = 27.2;
+
+export const normalizeCropName = (name: string) => name.trim().toLowerCase();
+
+const catalogueEntry = (name: string) => {
+  const normalized = normalizeCropName(name);
+  const candidates = [normalized, normalized.replace(/es$/, ''), normalized.replace(/s$/, ''), normalized.replace(/ies$/, 'y')];
+  const match = candidates.find(candidate => CROP_CATALOGUE[candidate]);
+  return match ? CROP_CATALOGUE[match] : undefined;
+};
+
+export const findCrop = (crops: Crop[], name: string) =>
+  crops.find(crop => normalizeCropName(crop.name) === normalizeCropName(name));
+
+export const cropSettings = (crops: Crop[], name: string): CropSettings => {
+  const defaults = catalogueEntry(name) ?? DEFAULT_CROP_SETTINGS;
+  const crop = findCrop(crops, name);
+  if (!crop) return defaults;
+  return {
+    harvestUnit: crop.harvestUnit,
+    kgPerUnit: crop.kgPerUnit,
+    sensitivities: crop.sensitivities ?? defaults.sensitivities,
+    baseTemp: crop.baseTemp ?? defaults.baseTemp,
+    maturityGdd: crop.maturityGdd ?? defaults.maturityGdd,
+    rootDepth: crop.rootDepth ?? defaults.rootDepth,
+    kc: crop.kc ?? defaults.kc,
+  };
+};
+
+export const bushelWeight = (name: string) => {
+  const entry = catalogueEntry(name);
+  return entry?.harvestUnit === 'bu' ? entry.kgPerUnit : STANDARD_BUSHEL_KG;
+};
@@ -0,0 +1,129 @@
+import { databaseNameFor, getActiveWorkspaceId } from './workspaces';
+
+const DB_VERSION = 7;
+
+export const STORES = {
+  farms: 'farms',
+  water: 'waterRecords',
+  fertilizer: 'fertilizerRecords',
+  harvest: 'harvestRecords',
+  rotation: 'rotationRecords',
+  tasks: 'tasks',
+  issues: 'issues',
+  cropPlanEvents: 'cropPlanEvents',
+  crops: 'crops',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// Key/value store for bookkeeping such as the stored data's schema version
+export const META_STORE = 'meta';
+
+// Append-only change log, kept outside STORES so data replacement never clears it
+export const AUDIT_STORE = 'auditLog';
+
+// Observed daily weather keyed by [location, date], shared by all farms at a location
+export const WEATHER_STORE = 'weatherArchive';
+
+// Sustainability scores as of the end of each month or season, keyed by [granularity, period]
+export const SNAPSHOT_STORE = 'scoreSnapshots';
+
+// History records are stored per farm and looked up through the farmId index
+export const RECORD_STORES: StoreName[] = [
+  STORES.water,
+  STORES.fertilizer,
+  STORES.harvest,
+  STORES.rotation,
+];
+
+// Each workspace has its own database; connections are opened on first use
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+const upgradeDatabase = (db: IDBDatabase, oldVersion: number) => {
+  if (!db.objectStoreNames.contains(STORES.farms)) {
+    db.createObjectStore(STORES.farms, { keyPath: 'id' });
+  }
+  RECORD_STORES.forEach(name => {
+    if (!db.objectStoreNames.contains(name)) {
+      const store = db.createObjectStore(name, { autoIncrement: true });
+      store.createIndex('farmId', 'farmId');
+    }
+  });
+  [STORES.tasks, STORES.issues, STORES.cropPlanEvents, STORES.crops].forEach(name => {
+    if (!db.objectStoreNames.contains(name)) {
+      db.createObjectStore(name, { keyPath: 'id' });
+    }
+  });
+  if (!db.objectStoreNames.contains(META_STORE)) {
+    db.createObjectStore(META_STORE);
+  }
+  if (!db.objectStoreNames.contains(AUDIT_STORE)) {
+    const store = db.createObjectStore(AUDIT_STORE, { keyPath: 'id' });
+    store.createIndex('timestamp', 'timestamp');
+  }
+  // Before version 5 archived temperatures were in °F; drop them and refetch in °C
+  if (oldVersion < 5 && db.objectStoreNames.contains(WEATHER_STORE)) {
+    db.deleteObjectStore(WEATHER_STORE);
+  }
+  if (!db.objectStoreNames.contains(WEATHER_STORE)) {
+    db.createObjectStore(WEATHER_STORE, { keyPath: ['location', 'date'] });
+  }
+  if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+    db.createObjectStore(SNAPSHOT_STORE, { keyPath: ['granularity', 'period'] });
+  }
+};
+
+export const openDatabase = (workspaceId = getActiveWorkspaceId()): Promise<IDBDatabase> => {
+  const name = databaseNameFor(workspaceId);
+  let connection = connections.get(name);
+  if (!connection) {
+    connection = new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, DB_VERSION);
+      request.onupgradeneeded = event => upgradeDatabase(request.result, event.oldVersion);
+      request.onsuccess = () => {
+        const db = request.result;
+        // Step aside when another tab upgrades or deletes the database; it is reopened on next use
+        db.onversionchange = () => {
+          db.close();
+          if (connections.get(name) === connection) connections.delete(name);
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        connections.delete(name);
+        reject(request.error);
+      };
+    });
+    connections.set(name, connection);
+  }
+  return connection;
+};
+
+export const deleteDatabase = async (workspaceId: string): Promise<void> => {
+  const name = databaseNameFor(workspaceId);
+  const connection = connections.get(name);
+  if (connection) {
+    connections.delete(name);
+    (await connection).close();
+  }
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(name);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    // The deletion stays queued and completes once the other connections close
+    request.onblocked = () => reject(new Error('The workspace is still open in another tab; close it there to finish deleting it'));
+  });
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
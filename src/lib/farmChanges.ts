@@ -0,0 +1,52 @@
+import type { FarmData } from './farmRepository';
+
+export type FarmCollection = keyof FarmData;
+
+export interface CollectionChanges<T> {
+  put: T[];
+  removed: string[];
+}
+
+export type FarmChanges = { [K in FarmCollection]: CollectionChanges<FarmData[K][number]> };
+
+export const FARM_COLLECTIONS: FarmCollection[] = ['farms', 'tasks', 'issues', 'cropPlanEvents', 'crops'];
+
+// Records are treated as changed when their identity changes, which the store guarantees on every edit
+const diffCollection = <T extends { id: string }>(prev: T[], next: T[]): CollectionChanges<T> => {
+  const prevById = new Map(prev.map(item => [item.id, item]));
+  const nextIds = new Set(next.map(item => item.id));
+  return {
+    put: next.filter(item => prevById.get(item.id) !== item),
+    removed: prev.filter(item => !nextIds.has(item.id)).map(item => item.id),
+  };
+};
+
+export const diffFarmChanges = (prev: FarmData, next: FarmData): FarmChanges => ({
+  farms: diffCollection(prev.farms, next.farms),
+  tasks: diffCollection(prev.tasks, next.tasks),
+  issues: diffCollection(prev.issues, next.issues),
+  cropPlanEvents: diffCollection(prev.cropPlanEvents, next.cropPlanEvents),
+  crops: diffCollection(prev.crops, next.crops),
+});
+
+export const hasFarmChanges = (changes: FarmChanges) =>
+  FARM_COLLECTIONS.some(collection => changes[collection].put.length > 0 || changes[collection].removed.length > 0);
+
+const applyCollection = <T extends { id: string }>(items: T[], changes: CollectionChanges<T>): T[] => {
+  if (changes.put.length === 0 && changes.removed.length === 0) return items;
+  const removed = new Set(changes.removed);
+  const updates = new Map(changes.put.map(item => [item.id, item]));
+  const result = items
+    .filter(item => !removed.has(item.id))
+    .map(item => updates.get(item.id) ?? item);
+  const existingIds = new Set(items.map(item => item.id));
+  return [...result, ...changes.put.filter(item => !existingIds.has(item.id))];
+};
+
+export const applyFarmChanges = (data: FarmData, changes: FarmChanges): FarmData => ({
+  farms: applyCollection(data.farms, changes.farms),
+  tasks: applyCollection(data.tasks, changes.tasks),
+  issues: applyCollection(data.issues, changes.issues),
+  cropPlanEvents: applyCollection(data.cropPlanEvents, changes.cropPlanEvents),
+  crops: applyCollection(data.crops, changes.crops),
+});
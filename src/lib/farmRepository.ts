@@ -0,0 +1,224 @@
+import { openDatabase, requestToPromise, transactionDone, STORES, RECORD_STORES, META_STORE, StoreName } from './db';
+import { CURRENT_SCHEMA_VERSION, migrateData, VersionedData } from './schema';
+import type { FarmChanges } from './farmChanges';
+import { DEFAULT_WORKSPACE, getActiveWorkspaceId } from './workspaces';
+import type {
+  Farm,
+  WaterUsage,
+  FertilizerUsage,
+  HarvestRecord,
+  RotationEntry,
+  Task,
+  Issue,
+  CropPlanEvent,
+  Crop,
+} from '@/types/farm';
+
+type StoredFarm = Omit<Farm, 'waterHistory' | 'fertilizerHistory' | 'harvestHistory' | 'rotationHistory'>;
+type StoredRecord<T> = T & { farmId: string };
+
+export interface FarmData {
+  farms: Farm[];
+  tasks: Task[];
+  issues: Issue[];
+  cropPlanEvents: CropPlanEvent[];
+  crops: Crop[];
+}
+
+const ALL_STORES: StoreName[] = Object.values(STORES);
+
+const readGroupedRecords = async <T>(
+  transaction: IDBTransaction,
+  storeName: StoreName
+): Promise<Map<string, T[]>> => {
+  const rows = await requestToPromise<StoredRecord<T>[]>(transaction.objectStore(storeName).getAll());
+  const grouped = new Map<string, T[]>();
+  rows.forEach(({ farmId, ...record }) => {
+    grouped.set(farmId, [...(grouped.get(farmId) || []), record as T]);
+  });
+  return grouped;
+};
+
+// Record rows keep an auto-incremented key; their own id travels with the row.
+// Deletes are queued before the new rows are added so a farm's records are replaced in one pass
+const replaceFarmRecords = <T>(
+  transaction: IDBTransaction,
+  storeName: StoreName,
+  farmId: string,
+  records: T[]
+) => {
+  const store = transaction.objectStore(storeName);
+  const request = store.index('farmId').getAllKeys(IDBKeyRange.only(farmId));
+  request.onsuccess = () => {
+    request.result.forEach(key => store.delete(key));
+    records.forEach(record => store.add({ ...record, farmId }));
+  };
+};
+
+const deleteFarm = (transaction: IDBTransaction, id: string) => {
+  transaction.objectStore(STORES.farms).delete(id);
+  RECORD_STORES.forEach(storeName => replaceFarmRecords(transaction, storeName, id, []));
+};
+
+const writeFarm = (transaction: IDBTransaction, farm: Farm) => {
+  const { waterHistory, fertilizerHistory, harvestHistory, rotationHistory, ...storedFarm } = farm;
+  transaction.objectStore(STORES.farms).put(storedFarm);
+  replaceFarmRecords(transaction, STORES.water, farm.id, waterHistory);
+  replaceFarmRecords(transaction, STORES.fertilizer, farm.id, fertilizerHistory);
+  replaceFarmRecords(transaction, STORES.harvest, farm.id, harvestHistory);
+  replaceFarmRecords(transaction, STORES.rotation, farm.id, rotationHistory || []);
+};
+
+export const farmRepository = {
+  async list(workspaceId?: string): Promise<Farm[]> {
+    const db = await openDatabase(workspaceId);
+    const transaction = db.transaction([STORES.farms, ...RECORD_STORES], 'readonly');
+    const [farms, water, fertilizer, harvest, rotation] = await Promise.all([
+      requestToPromise<StoredFarm[]>(transaction.objectStore(STORES.farms).getAll()),
+      readGroupedRecords<WaterUsage>(transaction, STORES.water),
+      readGroupedRecords<FertilizerUsage>(transaction, STORES.fertilizer),
+      readGroupedRecords<HarvestRecord>(transaction, STORES.harvest),
+      readGroupedRecords<RotationEntry>(transaction, STORES.rotation),
+    ]);
+    return farms.map(farm => ({
+      ...farm,
+      waterHistory: water.get(farm.id) || [],
+      fertilizerHistory: fertilizer.get(farm.id) || [],
+      harvestHistory: harvest.get(farm.id) || [],
+      rotationHistory: rotation.get(farm.id) || [],
+    }));
+  },
+
+  async put(farm: Farm): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction([STORES.farms, ...RECORD_STORES], 'readwrite');
+    writeFarm(transaction, farm);
+    await transactionDone(transaction);
+  },
+
+  async remove(id: string): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction([STORES.farms, ...RECORD_STORES], 'readwrite');
+    deleteFarm(transaction, id);
+    await transactionDone(transaction);
+  },
+};
+
+const createCollectionRepository = <T extends { id: string }>(storeName: StoreName) => ({
+  async list(workspaceId?: string): Promise<T[]> {
+    const db = await openDatabase(workspaceId);
+    return requestToPromise<T[]>(db.transaction(storeName, 'readonly').objectStore(storeName).getAll());
+  },
+
+  async put(item: T): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).put(item);
+    await transactionDone(transaction);
+  },
+
+  async remove(id: string): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).delete(id);
+    await transactionDone(transaction);
+  },
+});
+
+export const taskRepository = createCollectionRepository<Task>(STORES.tasks);
+export const issueRepository = createCollectionRepository<Issue>(STORES.issues);
+export const cropPlanRepository = createCollectionRepository<CropPlanEvent>(STORES.cropPlanEvents);
+export const cropRepository = createCollectionRepository<Crop>(STORES.crops);
+
+export const replaceAllData = async (data: FarmData, workspaceId?: string): Promise<void> => {
+  const db = await openDatabase(workspaceId);
+  const transaction = db.transaction(ALL_STORES, 'readwrite');
+  ALL_STORES.forEach(storeName => transaction.objectStore(storeName).clear());
+  data.farms.forEach(farm => writeFarm(transaction, farm));
+  data.tasks.forEach(task => transaction.objectStore(STORES.tasks).put(task));
+  data.issues.forEach(issue => transaction.objectStore(STORES.issues).put(issue));
+  data.cropPlanEvents.forEach(event => transaction.objectStore(STORES.cropPlanEvents).put(event));
+  data.crops.forEach(crop => transaction.objectStore(STORES.crops).put(crop));
+  await transactionDone(transaction);
+};
+
+// Writes a batch of upserts and deletes in a single transaction
+export const saveChanges = async (changes: FarmChanges, workspaceId?: string): Promise<void> => {
+  const db = await openDatabase(workspaceId);
+  const transaction = db.transaction(ALL_STORES, 'readwrite');
+  changes.farms.put.forEach(farm => writeFarm(transaction, farm));
+  changes.farms.removed.forEach(id => deleteFarm(transaction, id));
+  ([
+    [STORES.tasks, changes.tasks],
+    [STORES.issues, changes.issues],
+    [STORES.cropPlanEvents, changes.cropPlanEvents],
+    [STORES.crops, changes.crops],
+  ] as const).forEach(([storeName, { put, removed }]) => {
+    const store = transaction.objectStore(storeName);
+    put.forEach(item => store.put(item));
+    removed.forEach(id => store.delete(id));
+  });
+  await transactionDone(transaction);
+};
+
+// Earlier builds kept farms and crop plan events under global localStorage keys
+const migrateLegacyStorage = async (workspaceId: string) => {
+  if (workspaceId !== DEFAULT_WORKSPACE.id) return;
+  const savedFarms = localStorage.getItem('farms');
+  const savedEvents = localStorage.getItem('cropPlanEvents');
+  if (!savedFarms && !savedEvents) return;
+
+  const farms: Farm[] = savedFarms ? JSON.parse(savedFarms) : [];
+  const events: CropPlanEvent[] = savedEvents ? JSON.parse(savedEvents, (key, value) => {
+    if (key === 'start' || key === 'end') return new Date(value);
+    return value;
+  }) : [];
+
+  const db = await openDatabase(workspaceId);
+  const transaction = db.transaction(ALL_STORES, 'readwrite');
+  farms.forEach(farm => writeFarm(transaction, farm));
+  events.forEach(event => transaction.objectStore(STORES.cropPlanEvents).put(event));
+  await transactionDone(transaction);
+
+  localStorage.removeItem('farms');
+  localStorage.removeItem('cropPlanEvents');
+};
+
+const getSchemaVersion = async (workspaceId: string): Promise<string | undefined> => {
+  const db = await openDatabase(workspaceId);
+  return requestToPromise<string | undefined>(
+    db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get('schemaVersion')
+  );
+};
+
+const setSchemaVersion = async (version: string, workspaceId: string) => {
+  const db = await openDatabase(workspaceId);
+  const transaction = db.transaction(META_STORE, 'readwrite');
+  transaction.objectStore(META_STORE).put(version, 'schemaVersion');
+  await transactionDone(transaction);
+};
+
+// Reads and migrates one workspace throughout, even if another becomes active meanwhile
+export const loadAllData = async (workspaceId = getActiveWorkspaceId()): Promise<FarmData> => {
+  await migrateLegacyStorage(workspaceId);
+  const [farms, tasks, issues, cropPlanEvents, crops] = await Promise.all([
+    farmRepository.list(workspaceId),
+    taskRepository.list(workspaceId),
+    issueRepository.list(workspaceId),
+    cropPlanRepository.list(workspaceId),
+    cropRepository.list(workspaceId),
+  ]);
+  const data: FarmData = { farms, tasks, issues, cropPlanEvents, crops };
+
+  // Data written before versioning was introduced is treated as 1.0
+  const storedVersion = (await getSchemaVersion(workspaceId)) || '1.0';
+  if (storedVersion === CURRENT_SCHEMA_VERSION) return data;
+
+  const { data: migrated } = migrateData<FarmData>({
+    version: storedVersion,
+    ...data,
+  } as unknown as VersionedData);
+  await replaceAllData(migrated, workspaceId);
+  await setSchemaVersion(CURRENT_SCHEMA_VERSION, workspaceId);
+  return migrated;
+};
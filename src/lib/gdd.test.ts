@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import type { CropPlanEvent, Farm, WeatherData } from '@/types/farm';
+import { dailyGdd, gddProgress, plantingDate } from './gdd';
+import { addDays } from './weather';
+
+const day = (date: string, temp: number, tempMin?: number): WeatherData =>
+  ({ date, temp, tempMin, weather: 'Clear', icon: '' });
+
+// Days of 20 °C, worth 10 °C·d each against a base of 10 °C
+const days = (from: string, count: number) =>
+  Array.from({ length: count }, (_, index) => day(addDays(from, index), 20, 20));
+
+describe('dailyGdd', () => {
+  it('averages the maximum and minimum above the base temperature', () => {
+    expect(dailyGdd(day('2026-06-01', 30, 10), 10)).toBe(10);  // (30 + 10) / 2 − 10
+    expect(dailyGdd(day('2026-06-01', 15), 10)).toBe(5);  // No minimum: the maximum alone
+    expect(dailyGdd(day('2026-06-01', 8, 2), 10)).toBe(0);
+  });
+});
+
+describe('gddProgress', () => {
+  it('finds the day the target was reached', () => {
+    const progress = gddProgress(days('2026-06-01', 5), '2026-06-01', 10, 30, '2026-06-05');
+
+    expect(progress).toEqual({
+      plantedOn: '2026-06-01',
+      accumulated: 50,
+      target: 30,
+      missingDays: 0,
+      maturityDate: '2026-06-03',
+      projected: false,
+    });
+  });
+
+  it('counts forecast days towards the maturity date but not the total so far', () => {
+    const progress = gddProgress(days('2026-06-01', 7), '2026-06-01', 10, 70, '2026-06-05');
+
+    expect(progress.accumulated).toBe(50);
+    expect(progress.maturityDate).toBe('2026-06-07');
+    expect(progress.projected).toBe(true);
+  });
+
+  it('carries the recent daily rate forward past the known weather', () => {
+    // 50 °C·d by 5 June leaves 50 to go at 10 a day
+    const progress = gddProgress(days('2026-06-01', 5), '2026-06-01', 10, 100, '2026-06-05');
+
+    expect(progress.maturityDate).toBe('2026-06-10');
+    expect(progress.projected).toBe(true);
+  });
+
+  it('gives no maturity date when the crop is not developing', () => {
+    const progress = gddProgress(days('2026-06-01', 5), '2026-06-01', 25, 100, '2026-06-05');
+
+    expect(progress.accumulated).toBe(0);
+    expect(progress.maturityDate).toBeUndefined();
+    expect(progress.projected).toBe(false);
+  });
+
+  it('reports days since planting without weather', () => {
+    const progress = gddProgress(days('2026-06-03', 3), '2026-06-01', 10, 100, '2026-06-05');
+
+    expect(progress.accumulated).toBe(30);
+    expect(progress.missingDays).toBe(2);
+  });
+});
+
+describe('plantingDate', () => {
+  const farm: Farm = {
+    id: 'farm-1',
+    name: 'North Field',
+    size: '10',
+    crop: 'Corn',
+    waterHistory: [],
+    fertilizerHistory: [],
+    harvestHistory: [],
+    rotationHistory: [
+      { id: 'rotation-1', crop: 'corn', startDate: '2026-04-01', endDate: '2026-09-30' },
+      { id: 'rotation-2', crop: 'Wheat', startDate: '2026-05-01', endDate: '2026-08-30' },
+      { id: 'rotation-3', crop: 'Corn', startDate: '2027-04-01', endDate: '2027-09-30' },
+    ],
+  };
+  const planting = (farmId: string, start: Date, type: CropPlanEvent['type'] = 'planting'): CropPlanEvent =>
+    ({ id: `event-${farmId}-${type}`, title: 'Sow', farmId, start, end: start, type });
+
+  it('takes the latest planting of the current crop up to today', () => {
+    expect(plantingDate(farm, [], '2026-06-01')).toBe('2026-04-01');
+    expect(plantingDate(farm, [planting('farm-1', new Date(2026, 3, 15))], '2026-06-01')).toBe('2026-04-15');
+  });
+
+  it('ignores other farms, other event types and plantings still to come', () => {
+    const events = [
+      planting('farm-2', new Date(2026, 4, 1)),
+      planting('farm-1', new Date(2026, 4, 1), 'fertilizing'),
+      planting('farm-1', new Date(2026, 6, 1)),
+    ];
+    expect(plantingDate(farm, events, '2026-06-01')).toBe('2026-04-01');
+    expect(plantingDate({ ...farm, rotationHistory: [] }, [], '2026-06-01')).toBeNull();
+  });
+});
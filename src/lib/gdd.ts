@@ -0,0 +1,80 @@
+import type { CropPlanEvent, Farm, WeatherData } from '@/types/farm';
+import { normalizeCropName } from './crops';
+import { addDays, formatLocalDate } from './weather';
+
+// Days a projection may reach ahead before the crop is considered unlikely to mature
+const MAX_PROJECTION_DAYS = 365;
+
+// Days at the end of the known weather whose average rate is extrapolated
+const PROJECTION_WINDOW = 14;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+
+// Latest planting of the farm's current crop that has already happened, from the
+// rotation history or the crop planner
+export const plantingDate = (farm: Farm, events: CropPlanEvent[], today = formatLocalDate(new Date())) => {
+  const rotations = (farm.rotationHistory || [])
+    .filter(entry => normalizeCropName(entry.crop) === normalizeCropName(farm.crop))
+    .map(entry => entry.startDate.slice(0, 10));
+  const plantings = events
+    .filter(event => event.farmId === farm.id && event.type === 'planting')
+    .map(event => formatLocalDate(new Date(event.start)));
+  const dates = [...rotations, ...plantings].filter(date => date <= today).sort();
+  return dates.length > 0 ? dates[dates.length - 1] : null;
+};
+
+// Average method; days without a minimum use the maximum alone
+export const dailyGdd = (day: WeatherData, baseTemp: number) =>
+  Math.max(0, (day.temp + (day.tempMin ?? day.temp)) / 2 - baseTemp);
+
+export interface GddProgress {
+  plantedOn: string;
+  accumulated: number;  // Through today, °C·d
+  target: number;
+  missingDays: number;  // Days since planting without weather, counted as zero
+  maturityDate?: string;  // Day the target was or is expected to be reached
+  projected: boolean;  // Whether the maturity date still lies ahead
+}
+
+// Observed and forecast days count as they come; beyond the forecast the recent
+// daily rate is carried forward
+export const gddProgress = (
+  weather: WeatherData[],
+  plantedOn: string,
+  baseTemp: number,
+  target: number,
+  today = formatLocalDate(new Date())
+): GddProgress => {
+  const days = weather.filter(day => day.date >= plantedOn).sort((a, b) => a.date.localeCompare(b.date));
+  const gdd = days.map(day => dailyGdd(day, baseTemp));
+
+  let total = 0;
+  let accumulated = 0;
+  let maturityDate: string | undefined;
+  days.forEach((day, index) => {
+    total += gdd[index];
+    if (day.date <= today) accumulated = total;
+    if (!maturityDate && total >= target) maturityDate = day.date;
+  });
+
+  if (!maturityDate) {
+    const recent = gdd.slice(-PROJECTION_WINDOW);
+    const rate = recent.length > 0 ? recent.reduce((sum, value) => sum + value, 0) / recent.length : 0;
+    const lastDate = days.length > 0 ? days[days.length - 1].date : today;
+    const remainingDays = rate > 0 ? Math.ceil((target - total) / rate) : Infinity;
+    if (daysBetween(today, lastDate) + remainingDays <= MAX_PROJECTION_DAYS) {
+      maturityDate = addDays(lastDate, remainingDays);
+    }
+  }
+
+  const observedDays = days.filter(day => day.date <= today).length;
+  return {
+    plantedOn,
+    accumulated,
+    target,
+    missingDays: Math.max(0, daysBetween(plantedOn, today) + 1 - observedDays),
+    maturityDate,
+    projected: maturityDate !== undefined && maturityDate > today,
+  };
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { Crop, Farm } from '@/types/farm';
+import type { FarmData } from './farmRepository';
+import { applyImport } from './importMerge';
+
+const farm = (id: string, name: string): Farm => ({
+  id,
+  name,
+  size: '10',
+  crop: 'Wheat',
+  waterHistory: [{ id: 'water-1', amount: 100, date: '2026-05-01' }],
+  fertilizerHistory: [{ id: 'fertilizer-1', amount: 20, type: 'organic', date: '2026-05-02' }],
+  harvestHistory: [],
+  rotationHistory: [{ id: 'rotation-1', crop: 'Wheat', startDate: '2026-03-01', endDate: '2026-08-01' }],
+  pesticides: [],
+});
+
+const dataWith = (farms: Farm[]): FarmData => ({ farms, tasks: [], issues: [], cropPlanEvents: [], crops: [] });
+
+const recordIds = (farm: Farm) => [
+  ...farm.waterHistory.map(record => record.id),
+  ...farm.fertilizerHistory.map(record => record.id),
+  ...(farm.rotationHistory || []).map(record => record.id),
+];
+
+describe('applyImport', () => {
+  it('gives a merged farm whose id collides a new id and new record ids', () => {
+    const existing = farm('farm-1', 'North Field');
+    const { data, summary } = applyImport(dataWith([existing]), dataWith([farm('farm-1', 'South Field')]), {
+      mode: 'merge',
+      matchBy: 'name',
+      resolutions: {},
+    });
+
+    expect(summary).toEqual({ added: 1, updated: 0, unchanged: 0 });
+    expect(data.farms[0]).toEqual(existing);
+    const added = data.farms[1];
+    expect(added.name).toBe('South Field');
+    expect(added.id).not.toBe('farm-1');
+    recordIds(added).forEach(id => expect(recordIds(existing)).not.toContain(id));
+  });
+
+  it('keeps the record ids of a merged farm that matches an existing one', () => {
+    const { data, summary } = applyImport(dataWith([farm('farm-1', 'North Field')]),
+      dataWith([{ ...farm('farm-2', 'North Field'), size: '12' }]), {
+        mode: 'merge',
+        matchBy: 'name',
+        resolutions: {},
+      });
+
+    expect(summary).toEqual({ added: 0, updated: 1, unchanged: 0 });
+    expect(data.farms).toHaveLength(1);
+    expect(data.farms[0].id).toBe('farm-1');
+    expect(data.farms[0].size).toBe('12');
+    expect(recordIds(data.farms[0])).toEqual(['water-1', 'fertilizer-1', 'rotation-1']);
+  });
+
+  it('keeps the ids of a merged farm that does not collide', () => {
+    const { data } = applyImport(dataWith([farm('farm-1', 'North Field')]), dataWith([farm('farm-2', 'South Field')]), {
+      mode: 'merge',
+      matchBy: 'name',
+      resolutions: {},
+    });
+
+    expect(data.farms[1].id).toBe('farm-2');
+    expect(recordIds(data.farms[1])).toEqual(['water-1', 'fertilizer-1', 'rotation-1']);
+  });
+
+  it('keeps one setting per crop when appending', () => {
+    const crop = (id: string, name: string, kgPerUnit: number): Crop => ({ id, name, harvestUnit: 'bushel', kgPerUnit });
+    const current = { ...dataWith([]), crops: [crop('crop-1', 'Wheat', 27.2)] };
+    const incoming = { ...dataWith([]), crops: [crop('crop-2', ' wheat ', 25), crop('crop-3', 'Barley', 21.8)] };
+    const { data, summary } = applyImport(current, incoming, { mode: 'append', matchBy: 'id', resolutions: {} });
+
+    expect(summary).toEqual({ added: 1, updated: 0, unchanged: 1 });
+    expect(data.crops.map(c => c.name)).toEqual(['Wheat', 'Barley']);
+    expect(data.crops[0]).toEqual(current.crops[0]);
+  });
+});
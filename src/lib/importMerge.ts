@@ -0,0 +1,205 @@
+import type { Farm, Task, Issue, CropPlanEvent, Crop } from '@/types/farm';
+import type { FarmData } from './farmRepository';
+import { createId } from './ids';
+import { normalizeCropName } from './crops';
+
+export type ImportMode = 'replace' | 'merge' | 'append';
+export type MatchStrategy = 'id' | 'name';
+export type ConflictChoice = 'existing' | 'incoming';
+export type ImportCollection = keyof FarmData;
+export type ImportRecord = Farm | Task | Issue | CropPlanEvent | Crop;
+
+export interface ImportConflict {
+  key: string;
+  collection: ImportCollection;
+  label: string;
+  existing: ImportRecord;
+  incoming: ImportRecord;
+}
+
+export interface ImportOptions {
+  mode: ImportMode;
+  matchBy: MatchStrategy;
+  resolutions: Record<string, ConflictChoice>;
+}
+
+export interface ImportSummary {
+  added: number;
+  updated: number;
+  unchanged: number;
+}
+
+// Serializes with sorted keys so records loaded from different sources compare equal
+const stableStringify = (value: unknown): string => {
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export const isSameRecord = (a: unknown, b: unknown) => stableStringify(a) === stableStringify(b);
+
+const recordLabel = (collection: ImportCollection, record: ImportRecord): string => {
+  switch (collection) {
+    case 'farms':
+      return (record as Farm).name;
+    case 'tasks':
+    case 'cropPlanEvents':
+      return (record as Task | CropPlanEvent).title;
+    case 'issues':
+      return `${(record as Issue).type}: ${(record as Issue).description}`;
+    case 'crops':
+      return (record as Crop).name;
+  }
+};
+
+// Crops are always matched by name since only one setting per crop can apply
+const matchKey = (collection: ImportCollection, record: ImportRecord, matchBy: MatchStrategy) => {
+  if (collection === 'crops') return normalizeCropName((record as Crop).name);
+  return collection === 'farms' && matchBy === 'name'
+    ? (record as Farm).name.trim().toLowerCase()
+    : record.id;
+};
+
+const conflictKey = (collection: ImportCollection, existing: ImportRecord) => `${collection}:${existing.id}`;
+
+// Maps each incoming farm id to the id it will have after the import
+const buildFarmIdMap = (current: FarmData, incoming: FarmData, options: Omit<ImportOptions, 'resolutions'>) => {
+  const idMap = new Map<string, string>();
+  const existingByKey = new Map(current.farms.map(farm => [matchKey('farms', farm, options.matchBy), farm]));
+  const existingIds = new Set(current.farms.map(farm => farm.id));
+
+  incoming.farms.forEach(farm => {
+    if (options.mode === 'replace') {
+      idMap.set(farm.id, farm.id);
+      return;
+    }
+    const match = options.mode === 'merge' ? existingByKey.get(matchKey('farms', farm, options.matchBy)) : undefined;
+    if (match) {
+      idMap.set(farm.id, match.id);
+    } else {
+      idMap.set(farm.id, options.mode === 'append' || existingIds.has(farm.id) ? createId() : farm.id);
+    }
+  });
+  return idMap;
+};
+
+const remapEvents = (events: CropPlanEvent[], farmIdMap: Map<string, string>) =>
+  events.map(event => ({ ...event, farmId: farmIdMap.get(event.farmId) ?? event.farmId }));
+
+export const findConflicts = (current: FarmData, incoming: FarmData, matchBy: MatchStrategy): ImportConflict[] => {
+  const farmIdMap = buildFarmIdMap(current, incoming, { mode: 'merge', matchBy });
+  const collections: [ImportCollection, ImportRecord[], ImportRecord[]][] = [
+    ['farms', current.farms, incoming.farms],
+    ['tasks', current.tasks, incoming.tasks],
+    ['issues', current.issues, incoming.issues],
+    ['cropPlanEvents', current.cropPlanEvents, remapEvents(incoming.cropPlanEvents, farmIdMap)],
+    ['crops', current.crops, incoming.crops],
+  ];
+
+  return collections.flatMap(([collection, existingRecords, incomingRecords]) => {
+    const existingByKey = new Map(existingRecords.map(record => [matchKey(collection, record, matchBy), record]));
+    return incomingRecords.flatMap(record => {
+      const existing = existingByKey.get(matchKey(collection, record, matchBy));
+      if (!existing || isSameRecord(existing, { ...record, id: existing.id })) return [];
+      return [{
+        key: conflictKey(collection, existing),
+        collection,
+        label: recordLabel(collection, existing),
+        existing,
+        incoming: record,
+      }];
+    });
+  });
+};
+
+const mergeCollection = <T extends ImportRecord>(
+  collection: ImportCollection,
+  existingRecords: T[],
+  incomingRecords: T[],
+  options: ImportOptions,
+  resolveId: (record: T) => string,
+  summary: ImportSummary
+): T[] => {
+  const result = [...existingRecords];
+  const indexByKey = new Map(existingRecords.map((record, index) => [matchKey(collection, record, options.matchBy), index]));
+
+  // Crops are matched when appending too; the existing setting is kept so no crop ends up with two
+  const isMatched = options.mode === 'merge' || collection === 'crops';
+
+  incomingRecords.forEach(record => {
+    const index = isMatched ? indexByKey.get(matchKey(collection, record, options.matchBy)) : undefined;
+    if (index === undefined) {
+      result.push({ ...record, id: resolveId(record) });
+      summary.added++;
+      return;
+    }
+    const existing = result[index];
+    const incoming = { ...record, id: existing.id };
+    if (options.mode === 'append' || isSameRecord(existing, incoming)) {
+      summary.unchanged++;
+    } else if ((options.resolutions[conflictKey(collection, existing)] || 'incoming') === 'incoming') {
+      result[index] = incoming;
+      summary.updated++;
+    } else {
+      summary.unchanged++;
+    }
+  });
+  return result;
+};
+
+const withFreshRecordIds = (farm: Farm): Farm => ({
+  ...farm,
+  waterHistory: farm.waterHistory.map(record => ({ ...record, id: createId() })),
+  fertilizerHistory: farm.fertilizerHistory.map(record => ({ ...record, id: createId() })),
+  harvestHistory: farm.harvestHistory.map(record => ({ ...record, id: createId() })),
+  rotationHistory: farm.rotationHistory?.map(record => ({ ...record, id: createId() })),
+  pesticides: farm.pesticides?.map(record => ({ ...record, id: createId() })),
+});
+
+export const applyImport = (
+  current: FarmData,
+  incoming: FarmData,
+  options: ImportOptions
+): { data: FarmData; summary: ImportSummary } => {
+  const summary: ImportSummary = { added: 0, updated: 0, unchanged: 0 };
+  if (options.mode === 'replace') {
+    summary.added = incoming.farms.length + incoming.tasks.length + incoming.issues.length +
+      incoming.cropPlanEvents.length + incoming.crops.length;
+    return { data: incoming, summary };
+  }
+
+  const farmIdMap = buildFarmIdMap(current, incoming, options);
+  // Farms added under a new id get new record ids too, so their records never share
+  // an id with those of the farm they were copied from or collided with
+  const existingFarmIds = new Set(current.farms.map(farm => farm.id));
+  const incomingFarms = incoming.farms.map(farm => {
+    const id = farmIdMap.get(farm.id) ?? farm.id;
+    return id === farm.id || existingFarmIds.has(id) ? farm : withFreshRecordIds(farm);
+  });
+  // Appended copies and id collisions get a fresh id so nothing existing is overwritten
+  const freshId = <T extends { id: string }>(existing: T[]) => {
+    const takenIds = new Set(existing.map(record => record.id));
+    return (record: T) => options.mode === 'append' || takenIds.has(record.id) ? createId() : record.id;
+  };
+
+  const data: FarmData = {
+    farms: mergeCollection('farms', current.farms, incomingFarms, options,
+      farm => farmIdMap.get(farm.id) ?? farm.id, summary),
+    tasks: mergeCollection('tasks', current.tasks, incoming.tasks, options,
+      freshId(current.tasks), summary),
+    issues: mergeCollection('issues', current.issues, incoming.issues, options,
+      freshId(current.issues), summary),
+    cropPlanEvents: mergeCollection('cropPlanEvents', current.cropPlanEvents, remapEvents(incoming.cropPlanEvents, farmIdMap), options,
+      freshId(current.cropPlanEvents), summary),
+    crops: mergeCollection('crops', current.crops, incoming.crops, options,
+      freshId(current.crops), summary),
+  };
+  return { data, summary };
+};
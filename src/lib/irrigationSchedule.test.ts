@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import type { Farm, WeatherData } from '@/types/farm';
+import type { CropSettings } from './crops';
+import { irrigationSchedule } from './irrigationSchedule';
+import { addDays } from './weather';
+
+const TODAY = '2026-09-10';
+
+// No temperature range, and so no evapotranspiration, during the spin-up; from today
+// 30/14 °C at 20°S, for a crop use of about 6 mm a day with Kc 1.2
+const weather: WeatherData[] = Array.from({ length: 24 }, (_, index) => {
+  const date = addDays(TODAY, index - 14);
+  return date < TODAY
+    ? { date, temp: 20, tempMin: 20, weather: 'Clear', icon: '' }
+    : { date, temp: 30, tempMin: 14, weather: 'Clear', icon: '' };
+});
+
+const settings: CropSettings = {
+  harvestUnit: 'bu',
+  kgPerUnit: 27.2,
+  sensitivities: [],
+  baseTemp: 10,
+  maturityGdd: 1500,
+  rootDepth: 1,
+  kc: { initial: 0.3, mid: 1.2, end: 0.6 },
+};
+
+const farm = (overrides: Partial<Farm> = {}): Farm => ({
+  id: 'farm-1',
+  name: 'North Field',
+  size: '1',
+  crop: 'Corn',
+  latitude: -20,
+  soilType: 'Sand',
+  waterHistory: [],
+  fertilizerHistory: [],
+  harvestHistory: [],
+  ...overrides,
+});
+
+describe('irrigationSchedule', () => {
+  it('holds half the available water of the root zone in reserve', () => {
+    const schedule = irrigationSchedule(farm(), weather, settings, null, TODAY);
+
+    // Sand holds 70 mm per metre of roots
+    expect(schedule).toMatchObject({ soilType: 'sand', soilAssumed: false, totalAvailable: 70, readilyAvailable: 35, depletion: 0 });
+  });
+
+  it('suggests refilling the root zone once the readily available water is used up', () => {
+    const schedule = irrigationSchedule(farm(), weather, settings, null, TODAY);
+
+    // 5.99 + 6.02 + 6.05 + 6.08 + 6.11 + 6.14 mm passes 35 mm on the sixth day; the
+    // 24.9 mm used over the four days after that stays below it
+    expect(schedule?.suggestions).toHaveLength(1);
+    const [suggestion] = schedule?.suggestions ?? [];
+    expect(suggestion.date).toBe('2026-09-15');
+    expect(suggestion.depth).toBeCloseTo(36.39, 2);
+    expect(suggestion.volume).toBeCloseTo(suggestion.depth * 10000, 6);  // Over one hectare
+  });
+
+  it('counts recorded waterings against the depletion', () => {
+    const schedule = irrigationSchedule(farm({
+      waterHistory: [{ id: 'water-1', date: '2026-09-12', amount: 120000 }],  // 12 mm over one hectare
+    }), weather, settings, null, TODAY);
+
+    expect(schedule?.suggestions.map(suggestion => suggestion.date)).toEqual(['2026-09-17']);
+    expect(schedule?.suggestions[0].depth).toBeCloseTo(36.75, 2);
+  });
+
+  it('assumes loam when the soil type is unknown', () => {
+    const schedule = irrigationSchedule(farm({ soilType: 'Peat' }), weather, settings, null, TODAY);
+
+    expect(schedule).toMatchObject({ soilType: 'loam', soilAssumed: true, totalAvailable: 150, readilyAvailable: 75 });
+    expect(schedule?.suggestions).toEqual([]);
+  });
+
+  it('needs a location, a size and weather from today', () => {
+    expect(irrigationSchedule(farm({ latitude: undefined }), weather, settings, null, TODAY)).toBeNull();
+    expect(irrigationSchedule(farm({ size: '0' }), weather, settings, null, TODAY)).toBeNull();
+    expect(irrigationSchedule(farm(), weather.filter(day => day.date < TODAY), settings, null, TODAY)).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+import type { Farm, WeatherData } from '@/types/farm';
+import type { CropSettings } from './crops';
+import { DEFAULT_SOIL_TYPE, SOIL_TYPES, soilTypeKey } from './soil';
+import { dailyWaterDemand, irrigationDepth } from './waterBalance';
+import { addDays, formatLocalDate } from './weather';
+
+// Days of observed weather the soil water is simulated over before today, starting
+// from field capacity, so the schedule does not depend on the full farm history
+export const SOIL_SPINUP_DAYS = 14;
+
+const SCHEDULE_DAYS = 10;
+
+// Share of the available water a crop can use before it is stressed (FAO-56 p)
+const DEPLETION_FRACTION = 0.5;
+
+export interface IrrigationSuggestion {
+  id: string;
+  farmId: string;
+  date: string;
+  depth: number;  // mm that refills the root zone to field capacity
+  volume: number;  // L over the whole farm
+}
+
+export interface IrrigationSchedule {
+  soilType: string;  // Key in SOIL_TYPES
+  soilAssumed: boolean;  // Whether the farm's soil type was unknown
+  totalAvailable: number;  // mm the root zone holds
+  readilyAvailable: number;  // mm the crop can use before it is stressed
+  depletion: number;  // mm used since field capacity at the start of today
+  suggestions: IrrigationSuggestion[];
+}
+
+// Daily root-zone depletion from crop water use, effective rain and recorded waterings.
+// A watering is suggested on each day the depletion would pass the readily available
+// water, large enough to bring the soil back to field capacity.
+export const irrigationSchedule = (
+  farm: Farm,
+  weather: WeatherData[],
+  settings: CropSettings,
+  plantedOn: string | null,
+  today = formatLocalDate(new Date())
+): IrrigationSchedule | null => {
+  const hectares = parseFloat(farm.size);
+  if (farm.latitude === undefined || !(hectares > 0)) return null;
+
+  const start = addDays(today, -SOIL_SPINUP_DAYS);
+  const end = addDays(today, SCHEDULE_DAYS - 1);
+  const days = dailyWaterDemand(weather, farm.latitude, settings, plantedOn)
+    .filter(day => day.date >= start && day.date <= end);
+  if (!days.some(day => day.date >= today)) return null;
+
+  const soilType = soilTypeKey(farm.soilType) ?? DEFAULT_SOIL_TYPE;
+  const totalAvailable = SOIL_TYPES[soilType].availableWater * settings.rootDepth;
+  const readilyAvailable = DEPLETION_FRACTION * totalAvailable;
+
+  const irrigated = new Map<string, number>();
+  farm.waterHistory.forEach(usage => {
+    const date = usage.date.slice(0, 10);
+    irrigated.set(date, (irrigated.get(date) || 0) + irrigationDepth(usage.amount, hectares));
+  });
+
+  let depletion = 0;
+  let depletionToday: number | undefined;
+  const suggestions: IrrigationSuggestion[] = [];
+  days.forEach(day => {
+    if (day.date >= today && depletionToday === undefined) depletionToday = depletion;
+    depletion = Math.min(totalAvailable, Math.max(0,
+      depletion + day.cropEt - day.effectiveRain - (irrigated.get(day.date) || 0)
+    ));
+    if (day.date >= today && depletion > readilyAvailable) {
+      suggestions.push({
+        id: `${farm.id}:${day.date}`,
+        farmId: farm.id,
+        date: day.date,
+        depth: depletion,
+        volume: depletion * hectares * 10000,
+      });
+      depletion = 0;
+    }
+  });
+
+  return {
+    soilType,
+    soilAssumed: soilTypeKey(farm.soilType) === null,
+    totalAvailable,
+    readilyAvailable,
+    depletion: depletionToday ?? 0,
+    suggestions,
+  };
+};
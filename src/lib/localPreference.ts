@@ -0,0 +1,47 @@
+// Display and alert preferences rather than farm data, so they are kept in
+// localStorage and shared by every workspace and open tab
+export interface LocalPreference<T> {
+  get: () => T;
+  set: (value: T) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+export const createLocalPreference = <T extends object>(key: string, fallback: T): LocalPreference<T> => {
+  const read = (): T => {
+    try {
+      const saved = localStorage.getItem(key);
+      return saved ? { ...fallback, ...JSON.parse(saved) } : fallback;
+    } catch (error) {
+      console.error(`Error reading ${key}:`, error);
+      return fallback;
+    }
+  };
+
+  let value = read();
+  const listeners = new Set<() => void>();
+  const notify = () => listeners.forEach(listener => listener());
+
+  // Follow changes made in other tabs
+  if (typeof window !== 'undefined') {
+    window.addEventListener('storage', event => {
+      if (event.key !== key) return;
+      value = read();
+      notify();
+    });
+  }
+
+  return {
+    get: () => value,
+    set: next => {
+      value = next;
+      localStorage.setItem(key, JSON.stringify(next));
+      notify();
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
@@ -0,0 +1,22 @@
+import type { PesticideApplication } from '@/types/farm';
+
+// Toxicity multipliers after the WHO hazard classes of pesticides
+export const TOXICITY_CLASSES = [
+  { toxicity: 1, label: 'Slightly hazardous (III)' },
+  { toxicity: 2, label: 'Moderately hazardous (II)' },
+  { toxicity: 3, label: 'Highly hazardous (Ib)' },
+  { toxicity: 4, label: 'Extremely hazardous (Ia)' },
+];
+
+export const DEFAULT_TOXICITY = 2;
+
+export const toxicityLabel = (toxicity: number) =>
+  TOXICITY_CLASSES.find(toxicityClass => toxicityClass.toxicity === toxicity)?.label ?? `Toxicity ${toxicity}`;
+
+// Amount × toxicity, in toxicity-weighted kg
+export const pesticideLoad = (applications: PesticideApplication[]) =>
+  applications.reduce((sum, application) => sum + application.amount * application.toxicity, 0);
+
+// A farm's load is averaged over the calendar years it sprayed in
+export const applicationYears = (applications: PesticideApplication[]) =>
+  new Set(applications.map(application => application.date.slice(0, 4))).size;
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, compareVersions, migrateData, type StoredRecord, type VersionedData } from './schema';
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+// An export from the first release: numeric ids, US customary units and none of the later fields
+const version10Export = (): VersionedData => ({
+  version: '1.0',
+  farms: [{
+    id: 1,
+    name: 'North Field',
+    size: 10,
+    crop: 'Barley',
+    waterHistory: [{ id: 1, amount: 100, date: '2024-05-01' }],
+    fertilizerHistory: [{ amount: 10, type: 'organic', date: '2024-05-02' }],
+    harvestHistory: [{ id: 2, amount: 40, date: '2024-08-01' }],
+  }],
+  tasks: [{ id: 2, title: 'Check irrigation', dueDate: '2024-05-03' }],
+  issues: [{ id: 3, type: 'pest', description: 'Aphids' }],
+  cropPlanEvents: [{ id: 4, title: 'Sow barley', farmId: 1, start: '2024-04-01', end: '2024-04-02' }],
+});
+
+const migrate = (input: VersionedData) => migrateData<Required<VersionedData>>(input);
+const historyOf = (farm: StoredRecord, history: string) => farm[history] as StoredRecord[];
+
+describe('migrateData', () => {
+  it('upgrades a 1.0 export through every step', () => {
+    const { data, fromVersion, applied } = migrate(version10Export());
+
+    expect(fromVersion).toBe('1.0');
+    expect(data.version).toBe(CURRENT_SCHEMA_VERSION);
+    expect(applied.map(step => step.split(':')[0])).toEqual(['1.0 → 1.1', '1.1 → 1.2', '1.2 → 1.3', '1.3 → 1.4']);
+  });
+
+  it('adds the fields introduced in 1.1', () => {
+    const { data } = migrate(version10Export());
+    const [farm] = data.farms;
+
+    expect(farm.rotationHistory).toEqual([]);
+    expect(farm.pesticides).toEqual([]);
+    expect(typeof farm.size).toBe('string');
+    expect(data.tasks[0]).toMatchObject({ priority: 'medium', completed: false });
+    expect(data.issues[0]).toMatchObject({ status: 'open' });
+    expect(data.cropPlanEvents[0]).toMatchObject({ type: 'other', notes: '' });
+  });
+
+  it('replaces numeric and missing ids with UUIDs in 1.2 and relinks crop plan events', () => {
+    const { data } = migrate(version10Export());
+    const [farm] = data.farms;
+
+    expect(farm.id).toMatch(UUID);
+    ['waterHistory', 'fertilizerHistory', 'harvestHistory'].forEach(history => {
+      historyOf(farm, history).forEach(record => expect(record.id).toMatch(UUID));
+    });
+    [...data.tasks, ...data.issues, ...data.cropPlanEvents].forEach(record => expect(record.id).toMatch(UUID));
+    expect(data.cropPlanEvents[0].farmId).toBe(farm.id);
+  });
+
+  it('keeps ids that are already strings', () => {
+    const { farms = [], cropPlanEvents = [] } = version10Export();
+    const { data } = migrate({
+      version: '1.1',
+      farms: [{ ...farms[0], id: 'farm-1', rotationHistory: [], pesticides: [] }],
+      cropPlanEvents: [{ ...cropPlanEvents[0], farmId: 'farm-1' }],
+    });
+
+    expect(data.farms[0].id).toBe('farm-1');
+    expect(data.cropPlanEvents[0].farmId).toBe('farm-1');
+  });
+
+  it('converts amounts and sizes to metric units in 1.3', () => {
+    const { data } = migrate(version10Export());
+    const [farm] = data.farms;
+
+    expect(farm.size).toBe('4.046856');  // 10 ac × 0.40468564224 ha/ac
+    expect(historyOf(farm, 'waterHistory')[0].amount).toBe(378.541178);  // 100 gal × 3.785411784 L/gal
+    expect(historyOf(farm, 'fertilizerHistory')[0].amount).toBe(4.535924);  // 10 lb × 0.45359237 kg/lb
+  });
+
+  it('records harvests in bushels weighed with the crop bushel weight in 1.4', () => {
+    const { data } = migrate(version10Export());
+    const [harvest] = historyOf(data.farms[0], 'harvestHistory');
+
+    expect(harvest.unit).toBe('bu');
+    expect(harvest.amount).toBeCloseTo(40, 5);
+    expect(harvest.weight).toBeCloseTo(40 * 21.8, 3);  // Barley weighs 21.8 kg per bushel
+    expect(data.crops).toEqual([]);
+  });
+
+  it('does not convert units again when starting from 1.3', () => {
+    const { data } = migrate({
+      version: '1.3',
+      farms: [{ id: 'farm-1', name: 'North Field', size: '4', crop: 'Unknown', waterHistory: [{ id: 'water-1', amount: 500 }], harvestHistory: [] }],
+    });
+
+    expect(data.farms[0].size).toBe('4');
+    expect(historyOf(data.farms[0], 'waterHistory')[0].amount).toBe(500);
+  });
+
+  it('treats data without a version as 1.0', () => {
+    const { fromVersion, applied } = migrate({ ...version10Export(), version: '' });
+
+    expect(fromVersion).toBe('1.0');
+    expect(applied).toHaveLength(4);
+  });
+
+  it('leaves current data as it is', () => {
+    const input = { version: CURRENT_SCHEMA_VERSION, farms: [], crops: [] };
+    const { data, applied } = migrate(input);
+
+    expect(applied).toEqual([]);
+    expect(data).toEqual(input);
+  });
+
+  it('rejects data from a newer schema version', () => {
+    expect(() => migrate({ version: '9.0' })).toThrow(/newer schema version/);
+  });
+});
+
+describe('compareVersions', () => {
+  it('compares each part numerically', () => {
+    expect(compareVersions('1.10', '1.4')).toBeGreaterThan(0);
+    expect(compareVersions('1.4', '1.4.0')).toBe(0);
+    expect(compareVersions('1.0', '1.1')).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,183 @@
+import { createId } from './ids';
+import { bushelWeight } from './crops';
+
+export const CURRENT_SCHEMA_VERSION = '1.4';
+
+export type StoredRecord = Record<string, unknown>;
+
+// Loosely typed shape of stored or exported data before it has been upgraded
+export interface VersionedData {
+  version: string;
+  exportDate?: string;
+  farms?: StoredRecord[];
+  tasks?: StoredRecord[];
+  issues?: StoredRecord[];
+  cropPlanEvents?: StoredRecord[];
+  crops?: StoredRecord[];
+}
+
+// Numeric ids from earlier builds collided after deletions, so they are replaced with UUIDs
+const ensureId = (id: unknown): string => typeof id === 'string' && id ? id : createId();
+
+const withIds = (records: unknown): StoredRecord[] | undefined =>
+  Array.isArray(records)
+    ? (records as StoredRecord[]).map(record => ({ ...record, id: ensureId(record.id) }))
+    : undefined;
+
+// Earlier versions stored US customary units: gallons, pounds, bushels and acres
+const LITRES_PER_GALLON = 3.785411784;
+const KILOGRAMS_PER_POUND = 0.45359237;
+const LITRES_PER_BUSHEL = 35.23907016688;
+const HECTARES_PER_ACRE = 0.40468564224;
+
+const toMetric = (value: unknown, factor: number) =>
+  typeof value === 'number' ? Math.round(value * factor * 1e6) / 1e6 : value;
+
+const withMetricAmounts = (records: unknown, factor: number) =>
+  Array.isArray(records)
+    ? (records as StoredRecord[]).map(record => ({ ...record, amount: toMetric(record.amount, factor) }))
+    : records;
+
+interface Migration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (data: VersionedData) => VersionedData;
+}
+
+// Ordered chain of upgrades. Add an entry (and bump CURRENT_SCHEMA_VERSION)
+// whenever the shape of a stored record changes.
+const MIGRATIONS: Migration[] = [
+  {
+    from: '1.0',
+    to: '1.1',
+    description: 'Add soil, pesticide and rotation fields to farms',
+    migrate: data => ({
+      ...data,
+      farms: data.farms?.map(farm => ({
+        rotationHistory: [],
+        pesticides: [],
+        ...farm,
+        size: String(farm.size ?? ''),
+        fertilizerHistory: farm.fertilizerHistory ?? [],
+        harvestHistory: farm.harvestHistory ?? [],
+        waterHistory: farm.waterHistory ?? [],
+      })),
+      tasks: data.tasks?.map(task => ({ priority: 'medium', completed: false, ...task })),
+      issues: data.issues?.map(issue => ({ status: 'open', ...issue })),
+      cropPlanEvents: data.cropPlanEvents?.map(event => ({ type: 'other', notes: '', ...event })),
+    }),
+  },
+  {
+    from: '1.1',
+    to: '1.2',
+    description: 'Assign unique ids to farms and every history record',
+    migrate: data => {
+      const farmIds = new Map<unknown, string>();
+      const farms = data.farms?.map(farm => {
+        const id = ensureId(farm.id);
+        farmIds.set(farm.id, id);
+        return {
+          ...farm,
+          id,
+          waterHistory: withIds(farm.waterHistory),
+          fertilizerHistory: withIds(farm.fertilizerHistory),
+          harvestHistory: withIds(farm.harvestHistory),
+          rotationHistory: withIds(farm.rotationHistory),
+          pesticides: withIds(farm.pesticides),
+        };
+      });
+      return {
+        ...data,
+        farms,
+        tasks: withIds(data.tasks),
+        issues: withIds(data.issues),
+        cropPlanEvents: data.cropPlanEvents?.map(event => ({
+          ...event,
+          id: ensureId(event.id),
+          farmId: farmIds.get(event.farmId) ?? String(event.farmId ?? ''),
+        })),
+      };
+    },
+  },
+  {
+    from: '1.2',
+    to: '1.3',
+    description: 'Store amounts and farm sizes in metric units',
+    migrate: data => ({
+      ...data,
+      farms: data.farms?.map(farm => {
+        const size = parseFloat(String(farm.size ?? ''));
+        return {
+          ...farm,
+          size: isNaN(size) ? farm.size : String(toMetric(size, HECTARES_PER_ACRE)),
+          waterHistory: withMetricAmounts(farm.waterHistory, LITRES_PER_GALLON),
+          fertilizerHistory: withMetricAmounts(farm.fertilizerHistory, KILOGRAMS_PER_POUND),
+          harvestHistory: withMetricAmounts(farm.harvestHistory, LITRES_PER_BUSHEL),
+        };
+      }),
+    }),
+  },
+  {
+    from: '1.3',
+    to: '1.4',
+    description: 'Record harvests in crop units with their weight',
+    migrate: data => ({
+      ...data,
+      // Harvests were entered in bushels, so they are weighed with the crop's bushel weight
+      farms: data.farms?.map(farm => ({
+        ...farm,
+        harvestHistory: Array.isArray(farm.harvestHistory)
+          ? (farm.harvestHistory as StoredRecord[]).map(record => {
+            const bushels = toMetric(record.amount, 1 / LITRES_PER_BUSHEL);
+            return {
+              ...record,
+              amount: bushels,
+              unit: 'bu',
+              weight: toMetric(bushels, bushelWeight(String(farm.crop ?? ''))),
+            };
+          })
+          : farm.harvestHistory,
+      })),
+      crops: data.crops ?? [],
+    }),
+  },
+];
+
+const parseVersion = (version: string) => version.split('.').map(part => parseInt(part, 10) || 0);
+
+export const compareVersions = (a: string, b: string): number => {
+  const [aParts, bParts] = [parseVersion(a), parseVersion(b)];
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+    const diff = (aParts[i] || 0) - (bParts[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+export interface MigrationResult<T> {
+  data: T;
+  fromVersion: string;
+  applied: string[];
+}
+
+// Runs every migration between the data's version and the current one
+export const migrateData = <T>(input: VersionedData): MigrationResult<T> => {
+  const fromVersion = input.version || '1.0';
+  if (compareVersions(fromVersion, CURRENT_SCHEMA_VERSION) > 0) {
+    throw new Error(`Data was created with a newer schema version (${fromVersion}). Please update the app.`);
+  }
+
+  let data: VersionedData = { ...input, version: fromVersion };
+  const applied: string[] = [];
+  while (compareVersions(data.version, CURRENT_SCHEMA_VERSION) < 0) {
+    const migration = MIGRATIONS.find(m => m.from === data.version);
+    if (!migration) {
+      throw new Error(`No migration available from schema version ${data.version}`);
+    }
+    data = { ...migration.migrate(data), version: migration.to };
+    applied.push(`${migration.from} → ${migration.to}: ${migration.description}`);
+  }
+
+  return { data: data as unknown as T, fromVersion, applied };
+};
@@ -0,0 +1,104 @@
+import type { Farm, SustainabilityMetrics } from '@/types/farm';
+import { SNAPSHOT_STORE, openDatabase, requestToPromise, transactionDone } from './db';
+import { addDays, formatLocalDate } from './weather';
+
+export type SnapshotGranularity = 'month' | 'season';
+
+export interface ScorePeriod {
+  key: string;  // e.g. '2026-03' or '2026-spring'
+  label: string;
+  start: string;
+  end: string;  // Last day of the period, YYYY-MM-DD
+}
+
+export interface ScoreSnapshot {
+  granularity: SnapshotGranularity;
+  period: string;  // ScorePeriod key
+  label: string;
+  metrics: SustainabilityMetrics;
+  computedAt: string;
+}
+
+// Meteorological seasons of the northern hemisphere, each starting in the month given
+const SEASONS = [
+  { key: 'winter', label: 'Winter', startMonth: 11 },
+  { key: 'spring', label: 'Spring', startMonth: 2 },
+  { key: 'summer', label: 'Summer', startMonth: 5 },
+  { key: 'autumn', label: 'Autumn', startMonth: 8 },
+];
+
+export const periodContaining = (granularity: SnapshotGranularity, date: string): ScorePeriod => {
+  const [year, month] = date.split('-').map(Number);
+  if (granularity === 'month') {
+    return {
+      key: date.slice(0, 7),
+      label: new Date(year, month - 1, 1).toLocaleDateString(undefined, { month: 'short', year: 'numeric' }),
+      start: formatLocalDate(new Date(year, month - 1, 1)),
+      end: formatLocalDate(new Date(year, month, 0)),
+    };
+  }
+  // January and February belong to the winter that started the previous December
+  const season = SEASONS[Math.floor((month % 12) / 3)];
+  const startYear = month < 3 ? year - 1 : year;
+  return {
+    key: `${startYear}-${season.key}`,
+    label: season.key === 'winter'
+      ? `${season.label} ${startYear}–${String(startYear + 1).slice(2)}`
+      : `${season.label} ${startYear}`,
+    start: formatLocalDate(new Date(startYear, season.startMonth, 1)),
+    end: formatLocalDate(new Date(startYear, season.startMonth + 3, 0)),
+  };
+};
+
+// Every period from the one containing from through the one containing to
+export const scorePeriods = (granularity: SnapshotGranularity, from: string, to: string): ScorePeriod[] => {
+  const periods: ScorePeriod[] = [];
+  for (let period = periodContaining(granularity, from); period.start <= to; period = periodContaining(granularity, addDays(period.end, 1))) {
+    periods.push(period);
+  }
+  return periods;
+};
+
+export const firstRecordDate = (farms: Farm[]): string | null => {
+  const dates = farms.flatMap(farm => [
+    ...farm.waterHistory.map(record => record.date),
+    ...farm.fertilizerHistory.map(record => record.date),
+    ...farm.harvestHistory.map(record => record.date),
+    ...(farm.rotationHistory || []).map(entry => entry.startDate),
+    ...(farm.pesticides || []).map(application => application.date),
+  ].map(date => date.slice(0, 10)));
+  return dates.length > 0 ? dates.sort()[0] : null;
+};
+
+// The farm as it stood at the end of the day, keeping only the records dated up to it
+export const farmAsOf = (farm: Farm, date: string): Farm => {
+  const upTo = <T extends { date: string }>(records: T[]) => records.filter(record => record.date.slice(0, 10) <= date);
+  return {
+    ...farm,
+    waterHistory: upTo(farm.waterHistory),
+    fertilizerHistory: upTo(farm.fertilizerHistory),
+    harvestHistory: upTo(farm.harvestHistory),
+    rotationHistory: farm.rotationHistory?.filter(entry => entry.startDate.slice(0, 10) <= date),
+    pesticides: farm.pesticides && upTo(farm.pesticides),
+  };
+};
+
+// Scores of completed periods, kept per workspace so the trend does not change
+// when the scoring settings do
+export const scoreSnapshots = {
+  async list(): Promise<ScoreSnapshot[]> {
+    const db = await openDatabase();
+    const transaction = db.transaction(SNAPSHOT_STORE, 'readonly');
+    return requestToPromise<ScoreSnapshot[]>(transaction.objectStore(SNAPSHOT_STORE).getAll());
+  },
+
+  // Replaces any snapshot of the same period
+  async save(snapshots: ScoreSnapshot[]): Promise<void> {
+    if (snapshots.length === 0) return;
+    const db = await openDatabase();
+    const transaction = db.transaction(SNAPSHOT_STORE, 'readwrite');
+    const store = transaction.objectStore(SNAPSHOT_STORE);
+    snapshots.forEach(snapshot => store.put(snapshot));
+    await transactionDone(transaction);
+  },
+};
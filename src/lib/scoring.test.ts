@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SCORING, METRIC_KEYS, NO_SCORE, overallFarmScore, scoreFrom, type FarmScore, type MetricKey, type ScoringSettings } from './scoring';
+
+const scored = (points: number) => scoreFrom([{ label: 'Recorded', points, records: [] }]);
+
+const farmScore = (metrics: Partial<FarmScore['metrics']>): FarmScore => ({
+  farmId: 'farm-1',
+  metrics: { ...Object.fromEntries(METRIC_KEYS.map(key => [key, NO_SCORE])) as FarmScore['metrics'], ...metrics },
+});
+
+const weighted = (weights: Partial<Record<MetricKey, number>>): ScoringSettings =>
+  ({ ...DEFAULT_SCORING, weights: { ...DEFAULT_SCORING.weights, ...weights } });
+
+describe('overallFarmScore', () => {
+  it('averages the metrics with data by their weights', () => {
+    const score = farmScore({ waterEfficiency: scored(80), organicScore: scored(40) });
+
+    expect(overallFarmScore(score, weighted({ waterEfficiency: 3, organicScore: 1 }))).toBe(70);
+  });
+
+  it('counts a real score of 0 as data', () => {
+    const score = farmScore({ waterEfficiency: scored(-20), organicScore: scored(60) });
+
+    expect(overallFarmScore(score, weighted({ waterEfficiency: 1, organicScore: 1 }))).toBe(30);
+  });
+
+  it('is null without data or when every metric with data is weighted 0', () => {
+    const score = farmScore({ waterEfficiency: scored(80) });
+
+    expect(overallFarmScore(farmScore({}), DEFAULT_SCORING)).toBeNull();
+    expect(overallFarmScore(score, weighted({ waterEfficiency: 0 }))).toBeNull();
+  });
+});
@@ -0,0 +1,143 @@
+import type { SustainabilityMetrics } from '@/types/farm';
+
+export type MetricKey = Exclude<keyof SustainabilityMetrics, 'overallScore'>;
+
+export const METRIC_LABELS: Record<MetricKey, string> = {
+  waterEfficiency: 'Water Efficiency',
+  organicScore: 'Organic Practices',
+  harvestEfficiency: 'Harvest Efficiency',
+  soilQualityScore: 'Soil Quality',
+  rotationScore: 'Crop Rotation',
+  pesticideScore: 'Pesticide Load',
+};
+
+export const METRIC_KEYS = Object.keys(METRIC_LABELS) as MetricKey[];
+
+export interface ScoringSettings {
+  weights: Record<MetricKey, number>;  // Relative, normalised over the metrics with data
+  baseScore: number;  // Starting point of the soil quality and organic scores
+  idealPH: number;
+  phPenalty: number;  // Soil quality points lost per pH unit from the ideal
+  irrigationTolerance: number;  // Share of the crop's water need within which irrigation counts as balanced
+  pesticideLoadLimit: number;  // Toxicity-weighted kg per hectare and year at which the pesticide score reaches 0
+}
+
+export const DEFAULT_SCORING: ScoringSettings = {
+  weights: {
+    waterEfficiency: 0.25,
+    organicScore: 0.20,
+    harvestEfficiency: 0.20,
+    soilQualityScore: 0.20,
+    rotationScore: 0.15,
+    pesticideScore: 0.15,
+  },
+  baseScore: 70,
+  idealPH: 6.5,
+  phPenalty: 5,
+  irrigationTolerance: 0.1,
+  pesticideLoadLimit: 10,
+};
+
+export interface ScoringProfile {
+  name: string;
+  settings: ScoringSettings;
+}
+
+export const BUILT_IN_PROFILES: ScoringProfile[] = [
+  { name: 'Default', settings: DEFAULT_SCORING },
+  {
+    name: 'Regenerative',
+    settings: {
+      ...DEFAULT_SCORING,
+      weights: {
+        waterEfficiency: 0.15,
+        organicScore: 0.25,
+        harvestEfficiency: 0.10,
+        soilQualityScore: 0.25,
+        rotationScore: 0.25,
+        pesticideScore: 0.25,
+      },
+      baseScore: 60,
+    },
+  },
+  {
+    name: 'Water-scarce region',
+    settings: {
+      ...DEFAULT_SCORING,
+      weights: {
+        waterEfficiency: 0.45,
+        organicScore: 0.15,
+        harvestEfficiency: 0.15,
+        soilQualityScore: 0.15,
+        rotationScore: 0.10,
+        pesticideScore: 0.10,
+      },
+      irrigationTolerance: 0.05,
+    },
+  },
+];
+
+// Fills in settings added since a profile was saved
+export const withScoringDefaults = (settings: ScoringSettings): ScoringSettings => ({
+  ...DEFAULT_SCORING,
+  ...settings,
+  weights: { ...DEFAULT_SCORING.weights, ...settings.weights },
+});
+
+export const sameScoring = (a: ScoringSettings, b: ScoringSettings) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+export type ScoredHistory = 'waterHistory' | 'fertilizerHistory' | 'harvestHistory' | 'rotationHistory' | 'pesticides';
+
+// A farm record that a contribution was computed from
+export interface RecordRef {
+  history: ScoredHistory;
+  id: string;
+}
+
+// Points a single factor adds to or takes from a score, e.g. "+12 organic fertilizer share"
+export interface Contribution {
+  label: string;
+  points: number;
+  records: RecordRef[];
+}
+
+// A score of 0 without contributions means the farm has no data for the metric
+export interface MetricScore {
+  score: number;
+  contributions: Contribution[];
+}
+
+export const NO_SCORE: MetricScore = { score: 0, contributions: [] };
+
+// A real score of 0, e.g. for severe over-irrigation, still counts as data
+export const hasScore = (metric: MetricScore) => metric.contributions.length > 0;
+
+export interface FarmScore {
+  farmId: string;
+  metrics: Record<MetricKey, MetricScore>;
+}
+
+export const recordRefs = (history: ScoredHistory, records: { id: string }[]): RecordRef[] =>
+  records.map(record => ({ history, id: record.id }));
+
+// Sums the contributions into a 0-100 score. Clamping is listed as a contribution of
+// its own so the breakdown always adds up to the score.
+export const scoreFrom = (contributions: Contribution[]): MetricScore => {
+  const listed = contributions.filter(contribution => contribution.points !== 0);
+  const total = listed.reduce((sum, contribution) => sum + contribution.points, 0);
+  const score = Math.max(0, Math.min(100, total));
+  if (score !== total) {
+    listed.push({ label: score === 100 ? 'Capped at 100' : 'Limited to 0', points: score - total, records: [] });
+  }
+  return { score, contributions: listed };
+};
+
+// Weighted average of a farm's metrics, leaving out those it has no data for;
+// null when it has data for none, or only for metrics weighted 0
+export const overallFarmScore = ({ metrics }: FarmScore, scoring: ScoringSettings): number | null => {
+  const scored = METRIC_KEYS.filter(key => hasScore(metrics[key]));
+  const totalWeight = scored.reduce((sum, key) => sum + scoring.weights[key], 0);
+  if (totalWeight === 0) return null;
+  return scored.reduce((sum, key) => sum + metrics[key].score * scoring.weights[key], 0) / totalWeight;
+};
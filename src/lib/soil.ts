@@ -0,0 +1,20 @@
+// Water a soil holds between field capacity and wilting point, in mm per metre of
+// root zone (FAO-56 table 19)
+export const SOIL_TYPES: Record<string, { label: string; availableWater: number }> = {
+  sand: { label: 'Sand', availableWater: 70 },
+  'loamy sand': { label: 'Loamy sand', availableWater: 100 },
+  'sandy loam': { label: 'Sandy loam', availableWater: 120 },
+  loam: { label: 'Loam', availableWater: 150 },
+  'silt loam': { label: 'Silt loam', availableWater: 180 },
+  'clay loam': { label: 'Clay loam', availableWater: 170 },
+  clay: { label: 'Clay', availableWater: 160 },
+};
+
+// Assumed for farms whose soil has not been recorded
+export const DEFAULT_SOIL_TYPE = 'loam';
+
+// Soil type key for a farm, or null when it is not one of SOIL_TYPES
+export const soilTypeKey = (soilType?: string) => {
+  const key = soilType?.trim().toLowerCase();
+  return key && SOIL_TYPES[key] ? key : null;
+};
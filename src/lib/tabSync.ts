@@ -0,0 +1,35 @@
+import { createId } from './ids';
+import type { FarmChanges } from './farmChanges';
+
+const CHANNEL_NAME = 'ecosprout-sync';
+
+export const TAB_ID = createId();
+
+// Orders concurrent writes; the tab id breaks ties between writes in the same millisecond
+export interface Revision {
+  time: number;
+  tabId: string;
+}
+
+export interface SyncMessage {
+  workspaceId: string;
+  revision: Revision;
+  changes: FarmChanges;
+}
+
+export const createRevision = (): Revision => ({ time: Date.now(), tabId: TAB_ID });
+
+export const isNewerRevision = (a: Revision, b: Revision | undefined) =>
+  !b || a.time > b.time || (a.time === b.time && a.tabId > b.tabId);
+
+const channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANNEL_NAME);
+
+export const broadcastChanges = (message: SyncMessage) => {
+  channel?.postMessage(message);
+};
+
+export const subscribeToRemoteChanges = (listener: (message: SyncMessage) => void) => {
+  const handleMessage = (event: MessageEvent<SyncMessage>) => listener(event.data);
+  channel?.addEventListener('message', handleMessage);
+  return () => channel?.removeEventListener('message', handleMessage);
+};
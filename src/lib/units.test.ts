@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatQuantity,
+  formatYield,
+  fromDisplay,
+  toDisplay,
+  toInputValue,
+  unitFor,
+  unitSymbol,
+  type UnitPreferences,
+} from './units';
+
+const metric: UnitPreferences = { system: 'metric', overrides: {} };
+const imperial: UnitPreferences = { system: 'imperial', overrides: {} };
+
+describe('toDisplay and fromDisplay', () => {
+  it('convert between canonical metric and US customary units', () => {
+    expect(toDisplay(imperial, 'water', 378.5411784)).toBeCloseTo(100, 10);  // L to gal
+    expect(fromDisplay(imperial, 'fertilizer', 10)).toBeCloseTo(4.5359237, 10);  // lb to kg
+    expect(toDisplay(imperial, 'area', 0.40468564224)).toBeCloseTo(1, 10);  // ha to ac
+    expect(fromDisplay(imperial, 'precipitation', 2)).toBeCloseTo(50.8, 10);  // in to mm
+    expect(toDisplay(imperial, 'windSpeed', 16.09344)).toBeCloseTo(10, 10);  // km/h to mph
+  });
+
+  it('offset temperatures but only scale degree days', () => {
+    expect(toDisplay(imperial, 'temperature', 100)).toBeCloseTo(212, 10);
+    expect(fromDisplay(imperial, 'temperature', 32)).toBeCloseTo(0, 10);
+    expect(toDisplay(imperial, 'degreeDays', 100)).toBeCloseTo(180, 10);
+  });
+
+  it('leave canonical units unchanged', () => {
+    expect(toDisplay(metric, 'water', 123.4)).toBe(123.4);
+    expect(fromDisplay(metric, 'harvest', 56.7)).toBe(56.7);
+  });
+});
+
+describe('unitFor', () => {
+  it('prefers a per-quantity override that fits the quantity', () => {
+    const preferences: UnitPreferences = { system: 'metric', overrides: { water: 'm3', fertilizer: 'ac' } };
+
+    expect(unitFor(preferences, 'water')).toBe('m3');
+    expect(unitFor(preferences, 'fertilizer')).toBe('kg');
+    expect(toDisplay(preferences, 'water', 2500)).toBe(2.5);
+  });
+});
+
+describe('formatting', () => {
+  it('rounds to the digits of the quantity and places the symbol', () => {
+    expect(formatQuantity(metric, 'water', 12.345)).toBe('12.35 L');
+    expect(formatQuantity(imperial, 'temperature', 20)).toBe('68°F');
+    expect(unitSymbol(imperial, 'fertilizer')).toBe('lbs');
+  });
+
+  it('formats yields per unit of area', () => {
+    expect(formatYield(metric, 1000, 2)).toBe('500 kg/ha');
+    expect(formatYield(imperial, 453.59237 / 2, 0.40468564224)).toBe('500 lbs/ac');  // 500 lb on 1 ac
+  });
+
+  it('prefills inputs without round-trip noise', () => {
+    expect(toInputValue(imperial, 'water', 378.5411784)).toBe('100');
+    expect(toInputValue(imperial, 'water', 1)).toBe('0.2642');
+  });
+});
@@ -0,0 +1,123 @@
+// Records and weather are stored in canonical metric units and only converted
+// for display and entry, so a change of preference never rewrites data.
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export type Quantity =
+  | 'water'
+  | 'fertilizer'
+  | 'pesticide'
+  | 'harvest'
+  | 'area'
+  | 'temperature'
+  | 'precipitation'
+  | 'windSpeed'
+  | 'degreeDays';
+
+interface UnitDefinition {
+  symbol: string;
+  name: string;
+  toCanonical: (value: number) => number;
+  fromCanonical: (value: number) => number;
+}
+
+const scaled = (symbol: string, name: string, factor: number): UnitDefinition => ({
+  symbol,
+  name,
+  toCanonical: value => value * factor,
+  fromCanonical: value => value / factor,
+});
+
+export const UNITS = {
+  L: scaled('L', 'litres', 1),
+  m3: scaled('m³', 'cubic metres', 1000),
+  gal: scaled('gal', 'US gallons', 3.785411784),
+  kg: scaled('kg', 'kilograms', 1),
+  t: scaled('t', 'tonnes', 1000),
+  lb: scaled('lbs', 'pounds', 0.45359237),
+  ha: scaled('ha', 'hectares', 1),
+  ac: scaled('ac', 'acres', 0.40468564224),
+  C: scaled('°C', 'Celsius', 1),
+  F: {
+    symbol: '°F',
+    name: 'Fahrenheit',
+    toCanonical: value => (value - 32) * 5 / 9,
+    fromCanonical: value => value * 9 / 5 + 32,
+  },
+  mm: scaled('mm', 'millimetres', 1),
+  in: scaled('in', 'inches', 25.4),
+  kmh: scaled('km/h', 'kilometres per hour', 1),
+  mph: scaled('mph', 'miles per hour', 1.609344),
+  Cd: scaled('°C·d', 'Celsius degree days', 1),
+  Fd: scaled('°F·d', 'Fahrenheit degree days', 5 / 9),
+} satisfies Record<string, UnitDefinition>;
+
+export type UnitId = keyof typeof UNITS;
+
+interface QuantityDefinition {
+  label: string;
+  canonical: UnitId;
+  metric: UnitId;
+  imperial: UnitId;
+  units: UnitId[];
+  digits: number;
+}
+
+export const QUANTITIES: Record<Quantity, QuantityDefinition> = {
+  water: { label: 'Water', canonical: 'L', metric: 'L', imperial: 'gal', units: ['L', 'm3', 'gal'], digits: 2 },
+  fertilizer: { label: 'Fertilizer', canonical: 'kg', metric: 'kg', imperial: 'lb', units: ['kg', 't', 'lb'], digits: 2 },
+  pesticide: { label: 'Pesticide', canonical: 'kg', metric: 'kg', imperial: 'lb', units: ['kg', 'lb'], digits: 2 },
+  harvest: { label: 'Harvest weight', canonical: 'kg', metric: 'kg', imperial: 'lb', units: ['kg', 't', 'lb'], digits: 2 },
+  area: { label: 'Farm size', canonical: 'ha', metric: 'ha', imperial: 'ac', units: ['ha', 'ac'], digits: 2 },
+  temperature: { label: 'Temperature', canonical: 'C', metric: 'C', imperial: 'F', units: ['C', 'F'], digits: 0 },
+  precipitation: { label: 'Rainfall', canonical: 'mm', metric: 'mm', imperial: 'in', units: ['mm', 'in'], digits: 1 },
+  windSpeed: { label: 'Wind speed', canonical: 'kmh', metric: 'kmh', imperial: 'mph', units: ['kmh', 'mph'], digits: 0 },
+  degreeDays: { label: 'Growing degree days', canonical: 'Cd', metric: 'Cd', imperial: 'Fd', units: ['Cd', 'Fd'], digits: 0 },
+};
+
+export interface UnitPreferences {
+  system: UnitSystem;
+  overrides: Partial<Record<Quantity, UnitId>>;
+}
+
+export const DEFAULT_UNIT_PREFERENCES: UnitPreferences = { system: 'imperial', overrides: {} };
+
+export const unitFor = (preferences: UnitPreferences, quantity: Quantity): UnitId => {
+  const override = preferences.overrides[quantity];
+  return override && QUANTITIES[quantity].units.includes(override)
+    ? override
+    : QUANTITIES[quantity][preferences.system];
+};
+
+// Canonical value to the value shown in the preferred unit
+export const toDisplay = (preferences: UnitPreferences, quantity: Quantity, value: number) => {
+  const canonical = UNITS[QUANTITIES[quantity].canonical];
+  return UNITS[unitFor(preferences, quantity)].fromCanonical(canonical.toCanonical(value));
+};
+
+// Value entered in the preferred unit to the canonical value that is stored
+export const fromDisplay = (preferences: UnitPreferences, quantity: Quantity, value: number) => {
+  const canonical = UNITS[QUANTITIES[quantity].canonical];
+  return canonical.fromCanonical(UNITS[unitFor(preferences, quantity)].toCanonical(value));
+};
+
+export const unitSymbol = (preferences: UnitPreferences, quantity: Quantity) =>
+  UNITS[unitFor(preferences, quantity)].symbol;
+
+export const formatQuantity = (preferences: UnitPreferences, quantity: Quantity, value: number) => {
+  const display = toDisplay(preferences, quantity, value).toLocaleString(undefined, {
+    maximumFractionDigits: QUANTITIES[quantity].digits,
+  });
+  const symbol = unitSymbol(preferences, quantity);
+  return symbol.startsWith('°') ? `${display}${symbol}` : `${display} ${symbol}`;
+};
+
+// Harvest weight per unit of farm area, e.g. "3,120 lbs/ac"
+export const formatYield = (preferences: UnitPreferences, weight: number, area: number) => {
+  const value = toDisplay(preferences, 'harvest', weight) / toDisplay(preferences, 'area', area);
+  return `${value.toLocaleString(undefined, { maximumFractionDigits: 0 })} ${unitSymbol(preferences, 'harvest')}/${unitSymbol(preferences, 'area')}`;
+};
+
+// Prefills form inputs without the float noise of a round trip through the canonical unit
+export const toInputValue = (preferences: UnitPreferences, quantity: Quantity, value: number) =>
+  String(Math.round(toDisplay(preferences, quantity, value) * 10000) / 10000);
@@ -0,0 +1,160 @@
+import { z } from 'zod';
+import type {
+  Farm,
+  WaterUsage,
+  FertilizerUsage,
+  HarvestRecord,
+  RotationEntry,
+  PesticideApplication,
+  Task,
+  Issue,
+  CropPlanEvent,
+  Crop,
+  ExportData,
+} from '@/types/farm';
+
+const dateString = z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid date');
+const id = z.string().min(1, 'Id is required');
+const amount = z.number({ invalid_type_error: 'Amount must be a number' }).nonnegative('Amount cannot be negative');
+
+export const waterUsageSchema: z.ZodType<WaterUsage, z.ZodTypeDef, unknown> = z.object({
+  id,
+  amount,
+  date: dateString,
+  efficiency: z.number().optional(),
+});
+
+export const fertilizerUsageSchema: z.ZodType<FertilizerUsage, z.ZodTypeDef, unknown> = z.object({
+  id,
+  type: z.string().min(1, 'Fertilizer type is required'),
+  amount,
+  date: dateString,
+});
+
+export const harvestRecordSchema: z.ZodType<HarvestRecord, z.ZodTypeDef, unknown> = z.object({
+  id,
+  amount,
+  unit: z.string().min(1, 'Harvest unit is required'),
+  weight: amount,
+  date: dateString,
+});
+
+export const rotationEntrySchema: z.ZodType<RotationEntry, z.ZodTypeDef, unknown> = z.object({
+  id,
+  crop: z.string().min(1, 'Crop is required'),
+  startDate: dateString,
+  endDate: dateString,
+});
+
+export const pesticideApplicationSchema: z.ZodType<PesticideApplication, z.ZodTypeDef, unknown> = z.object({
+  id,
+  type: z.string().min(1, 'Pesticide type is required'),
+  amount,
+  date: dateString,
+  toxicity: z.number().nonnegative(),
+});
+
+export const farmSchema: z.ZodType<Farm, z.ZodTypeDef, unknown> = z.object({
+  id,
+  name: z.string().min(1, 'Farm name is required'),
+  size: z.string(),
+  crop: z.string(),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  waterHistory: z.array(waterUsageSchema),
+  fertilizerHistory: z.array(fertilizerUsageSchema),
+  harvestHistory: z.array(harvestRecordSchema),
+  soilType: z.string().optional(),
+  slopeRatio: z.number().optional(),
+  pesticides: z.array(pesticideApplicationSchema).optional(),
+  rotationHistory: z.array(rotationEntrySchema).optional(),
+  organicMatter: z.number().optional(),
+  soilPH: z.number().min(0).max(14).optional(),
+  biodiversityScore: z.number().optional(),
+});
+
+export const taskSchema: z.ZodType<Task, z.ZodTypeDef, unknown> = z.object({
+  id,
+  title: z.string().min(1, 'Task title is required'),
+  dueDate: z.string(),
+  priority: z.string(),
+  completed: z.boolean(),
+});
+
+export const issueSchema: z.ZodType<Issue, z.ZodTypeDef, unknown> = z.object({
+  id,
+  type: z.string(),
+  description: z.string(),
+  severity: z.string(),
+  status: z.string(),
+  dateReported: z.coerce.date(),
+});
+
+export const cropPlanEventSchema: z.ZodType<CropPlanEvent, z.ZodTypeDef, unknown> = z.object({
+  id,
+  title: z.string().min(1, 'Event title is required'),
+  start: z.coerce.date(),
+  end: z.coerce.date(),
+  farmId: z.string(),
+  type: z.enum(['planting', 'fertilizing', 'harvesting', 'other']),
+  notes: z.string().optional(),
+});
+
+export const cropPlanEventsSchema = z.array(cropPlanEventSchema);
+
+export const cropSchema: z.ZodType<Crop, z.ZodTypeDef, unknown> = z.object({
+  id,
+  name: z.string().min(1, 'Crop name is required'),
+  harvestUnit: z.string().min(1, 'Harvest unit is required'),
+  kgPerUnit: z.number().positive('Weight per unit must be positive'),
+  sensitivities: z.array(z.enum(['frost', 'heat', 'heavyRain'])).optional(),
+  baseTemp: z.number().optional(),
+  maturityGdd: z.number().positive('Growing degree days to maturity must be positive').optional(),
+  rootDepth: z.number().positive('Root depth must be positive').optional(),
+  kc: z.object({
+    initial: z.number().nonnegative(),
+    mid: z.number().nonnegative(),
+    end: z.number().nonnegative(),
+  }).optional(),
+});
+
+export const exportDataSchema: z.ZodType<ExportData, z.ZodTypeDef, unknown> = z.object({
+  version: z.string(),
+  exportDate: dateString,
+  workspace: z.string().optional(),
+  farms: z.array(farmSchema),
+  tasks: z.array(taskSchema),
+  issues: z.array(issueSchema),
+  cropPlanEvents: z.array(cropPlanEventSchema),
+  crops: z.array(cropSchema),
+});
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: ValidationIssue[] };
+
+// Renders a zod path like ['farms', 2, 'waterHistory', 0, 'amount'] as farms[2].waterHistory[0].amount
+export const formatIssuePath = (path: (string | number)[]): string =>
+  path.reduce<string>((result, segment) => (
+    typeof segment === 'number' ? `${result}[${segment}]` : result ? `${result}.${segment}` : segment
+  ), '') || '(root)';
+
+export const validateWith = <T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  data: unknown
+): ValidationResult<T> => {
+  const result = schema.safeParse(data);
+  if (result.success) return { success: true, data: result.data };
+  return {
+    success: false,
+    issues: result.error.issues.map(issue => ({
+      path: formatIssuePath(issue.path),
+      message: issue.message,
+    })),
+  };
+};
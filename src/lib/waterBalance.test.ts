@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import type { Farm, WeatherData } from '@/types/farm';
+import type { CropSettings } from './crops';
+import {
+  cropCoefficient,
+  dailyWaterDemand,
+  effectiveRainfall,
+  extraterrestrialRadiation,
+  irrigationDepth,
+  referenceEt,
+  waterBalance,
+  waterBalanceScore,
+  type WaterBalance,
+} from './waterBalance';
+
+const day = (date: string, temp: number, tempMin?: number): WeatherData =>
+  ({ date, temp, tempMin, weather: 'Clear', icon: '' });
+
+const KC = { initial: 0.3, mid: 1.2, end: 0.6 };
+
+const settings: CropSettings = {
+  harvestUnit: 'bu',
+  kgPerUnit: 27.2,
+  sensitivities: [],
+  baseTemp: 10,
+  maturityGdd: 100,
+  rootDepth: 1,
+  kc: KC,
+};
+
+describe('extraterrestrialRadiation', () => {
+  // FAO-56 example 8: 20°S on 3 September, Ra = 32.2 MJ/m²/day
+  it('matches the FAO-56 worked example', () => {
+    expect(extraterrestrialRadiation(-20, '2026-09-03')).toBeCloseTo(32.2 * 0.408, 1);
+  });
+});
+
+describe('referenceEt', () => {
+  // 0.0023 × 13.135 × (22 + 17.8) × √16 = 4.81 mm
+  it('applies the Hargreaves equation', () => {
+    expect(referenceEt(day('2026-09-03', 30, 14), -20)).toBeCloseTo(4.81, 2);
+  });
+
+  it('assumes a 10 °C range when the minimum is missing', () => {
+    expect(referenceEt(day('2026-09-03', 30), -20)).toBeCloseTo(referenceEt(day('2026-09-03', 30, 20), -20), 10);
+  });
+
+  it('is 0 without a temperature range', () => {
+    expect(referenceEt(day('2026-09-03', 20, 20), -20)).toBe(0);
+  });
+});
+
+describe('effectiveRainfall', () => {
+  it('drops the first 2 mm and keeps 80% of the rest', () => {
+    expect(effectiveRainfall(10)).toBeCloseTo(6.4, 10);
+    expect(effectiveRainfall(1.5)).toBe(0);
+    expect(effectiveRainfall()).toBe(0);
+  });
+});
+
+describe('cropCoefficient', () => {
+  it('follows the growth stages', () => {
+    expect(cropCoefficient(KC, 0.1)).toBe(0.3);
+    expect(cropCoefficient(KC, 0.275)).toBeCloseTo(0.75, 10);  // Halfway through development
+    expect(cropCoefficient(KC, 0.5)).toBe(1.2);
+    expect(cropCoefficient(KC, 0.875)).toBeCloseTo(0.9, 10);  // Halfway through the late season
+    expect(cropCoefficient(KC, 1.2)).toBe(0.6);
+  });
+
+  it('assumes full cover without a planting date', () => {
+    expect(cropCoefficient(KC, null)).toBe(1.2);
+  });
+});
+
+describe('dailyWaterDemand', () => {
+  it('advances the growth stage with the heat units since planting', () => {
+    // 20 °C days against a base of 10 °C give 10 °C·d each, so 100 °C·d matures on day 10
+    const weather = ['2026-06-01', '2026-06-02', '2026-06-03', '2026-06-04'].map(date => day(date, 20, 20));
+    const demand = dailyWaterDemand(weather, 45, settings, '2026-06-02');
+
+    // Progress 0 before planting, then 0.1, 0.2 and 0.3 of maturity
+    [0.3, 0.3, 0.48, 0.84].forEach((kc, index) => expect(demand[index].kc).toBeCloseTo(kc, 10));
+  });
+});
+
+describe('irrigationDepth', () => {
+  it('spreads 10,000 L over a hectare as 1 mm', () => {
+    expect(irrigationDepth(10000, 1)).toBe(1);
+    expect(irrigationDepth(50000, 2.5)).toBe(2);
+  });
+});
+
+describe('waterBalance', () => {
+  const weather = ['2026-09-01', '2026-09-02', '2026-09-03', '2026-09-04'].map(date => day(date, 30, 14));
+  const farm = (waterings: [string, number][]): Farm => ({
+    id: 'farm-1',
+    name: 'North Field',
+    size: '2',
+    crop: 'Corn',
+    latitude: -20,
+    waterHistory: waterings.map(([date, amount], index) => ({ id: `water-${index}`, date, amount })),
+    fertilizerHistory: [],
+    harvestHistory: [],
+  });
+  // The period runs from the day after the first watering through the last
+  const demand = (referenceEt(weather[1], -20) + referenceEt(weather[2], -20)) * KC.mid;
+
+  it('compares the water applied after the first watering with the crop use', () => {
+    const balance = waterBalance(farm([['2026-09-01', 5000], ['2026-09-03', demand * 20000]]), weather, settings, null, 0.1);
+
+    expect(balance).toMatchObject({ from: '2026-09-01', to: '2026-09-03', days: 2, effectiveRain: 0, status: 'balanced' });
+    expect(balance?.demand).toBeCloseTo(demand, 10);
+    expect(balance?.applied).toBeCloseTo(demand, 10);
+  });
+
+  it('takes the effective rain off the demand', () => {
+    const rainy = weather.map(d => d.date === '2026-09-02' ? { ...d, precipitation: 12 } : d);
+    const balance = waterBalance(farm([['2026-09-01', 0], ['2026-09-03', 0]]), rainy, settings, null, 0.1);
+
+    expect(balance?.effectiveRain).toBeCloseTo(8, 10);  // (12 − 2) × 0.8
+    expect(balance?.demand).toBeCloseTo(demand - 8, 10);
+  });
+
+  it('flags over- and under-irrigation beyond the tolerance', () => {
+    const over = waterBalance(farm([['2026-09-01', 0], ['2026-09-03', demand * 20000 * 1.2]]), weather, settings, null, 0.1);
+    const under = waterBalance(farm([['2026-09-01', 0], ['2026-09-03', demand * 20000 * 0.8]]), weather, settings, null, 0.1);
+
+    expect(over?.status).toBe('over');
+    expect(under?.status).toBe('under');
+  });
+
+  it('needs a location, a size and two waterings', () => {
+    expect(waterBalance({ ...farm([['2026-09-01', 0], ['2026-09-03', 0]]), latitude: undefined }, weather, settings, null, 0.1)).toBeNull();
+    expect(waterBalance({ ...farm([['2026-09-01', 0], ['2026-09-03', 0]]), size: '' }, weather, settings, null, 0.1)).toBeNull();
+    expect(waterBalance(farm([['2026-09-01', 0]]), weather, settings, null, 0.1)).toBeNull();
+  });
+});
+
+describe('waterBalanceScore', () => {
+  const balance = (applied: number, demand: number): WaterBalance => ({
+    from: '2026-09-01',
+    to: '2026-09-03',
+    days: 2,
+    cropEt: demand,
+    effectiveRain: 0,
+    demand,
+    applied,
+    difference: applied - demand,
+    status: 'balanced',
+  });
+
+  it('scores 100 within the tolerance', () => {
+    expect(waterBalanceScore(balance(10, 10), 0.1)).toBe(100);
+    expect(waterBalanceScore(balance(9.5, 10), 0.1)).toBe(100);
+    expect(waterBalanceScore(balance(0, 0), 0.1)).toBe(100);
+  });
+
+  it('falls in proportion to a shortfall', () => {
+    expect(waterBalanceScore(balance(4.5, 10), 0.1)).toBeCloseTo(50, 10);  // 100 × 0.45 / 0.9
+  });
+
+  it('loses half a point per percent of excess water down to 0', () => {
+    expect(waterBalanceScore(balance(15, 10), 0.1)).toBeCloseTo(80, 10);  // 100 − 50 × 0.4
+    expect(waterBalanceScore(balance(40, 10), 0.1)).toBe(0);
+    expect(waterBalanceScore(balance(1, 0), 0.1)).toBe(0);
+  });
+});
@@ -0,0 +1,148 @@
+import type { CropCoefficients, Farm, WeatherData } from '@/types/farm';
+import type { CropSettings } from './crops';
+import { dailyGdd } from './gdd';
+
+// Diurnal range assumed for days archived without a minimum temperature
+const DEFAULT_TEMP_RANGE = 10;
+
+// Daily rain up to this depth is intercepted or evaporates before reaching the roots
+const INEFFECTIVE_RAIN_MM = 2;
+
+// Share of the remaining rain that stays in the root zone
+const RAIN_EFFICIENCY = 0.8;
+
+const dayOfYear = (date: string) => {
+  const time = Date.parse(`${date}T00:00:00Z`);
+  return Math.round((time - Date.UTC(new Date(time).getUTCFullYear(), 0, 1)) / 86400000) + 1;
+};
+
+// Extraterrestrial radiation as mm/day of evaporation (FAO-56 equations 21-25)
+export const extraterrestrialRadiation = (latitude: number, date: string) => {
+  const phi = latitude * Math.PI / 180;
+  const angle = 2 * Math.PI * dayOfYear(date) / 365;
+  const inverseDistance = 1 + 0.033 * Math.cos(angle);
+  const declination = 0.409 * Math.sin(angle - 1.39);
+  const sunset = Math.acos(Math.max(-1, Math.min(1, -Math.tan(phi) * Math.tan(declination))));
+  const radiation = 24 * 60 / Math.PI * 0.082 * inverseDistance * (
+    sunset * Math.sin(phi) * Math.sin(declination) +
+    Math.cos(phi) * Math.cos(declination) * Math.sin(sunset)
+  );
+  return 0.408 * radiation;
+};
+
+// Hargreaves reference evapotranspiration, mm/day
+export const referenceEt = (day: WeatherData, latitude: number) => {
+  const tempMin = day.tempMin ?? day.temp - DEFAULT_TEMP_RANGE;
+  const tempMean = (day.temp + tempMin) / 2;
+  const range = Math.max(0, day.temp - tempMin);
+  return Math.max(0, 0.0023 * extraterrestrialRadiation(latitude, day.date) * (tempMean + 17.8) * Math.sqrt(range));
+};
+
+export const effectiveRainfall = (precipitation = 0) =>
+  Math.max(0, precipitation - INEFFECTIVE_RAIN_MM) * RAIN_EFFICIENCY;
+
+// Growth stage from the share of maturity heat units received: initial, development,
+// mid-season and late, with Kc interpolated through development and late season.
+// Without a planting date the stage is unknown and full cover is assumed.
+export const cropCoefficient = (kc: CropCoefficients, progress: number | null) => {
+  if (progress === null) return kc.mid;
+  if (progress < 0.15) return kc.initial;
+  if (progress < 0.4) return kc.initial + (kc.mid - kc.initial) * (progress - 0.15) / 0.25;
+  if (progress < 0.75) return kc.mid;
+  if (progress < 1) return kc.mid + (kc.end - kc.mid) * (progress - 0.75) / 0.25;
+  return kc.end;
+};
+
+export interface DailyWaterDemand {
+  date: string;
+  et0: number;  // mm
+  kc: number;
+  cropEt: number;  // mm
+  effectiveRain: number;  // mm
+}
+
+export const dailyWaterDemand = (
+  weather: WeatherData[],
+  latitude: number,
+  settings: CropSettings,
+  plantedOn: string | null
+): DailyWaterDemand[] => {
+  let gdd = 0;
+  return [...weather].sort((a, b) => a.date.localeCompare(b.date)).map(day => {
+    // Days before planting count as bare soil in the initial stage
+    let progress: number | null = null;
+    if (plantedOn) {
+      if (day.date >= plantedOn) gdd += dailyGdd(day, settings.baseTemp);
+      progress = gdd / settings.maturityGdd;
+    }
+    const et0 = referenceEt(day, latitude);
+    const kc = cropCoefficient(settings.kc, progress);
+    return { date: day.date, et0, kc, cropEt: et0 * kc, effectiveRain: effectiveRainfall(day.precipitation) };
+  });
+};
+
+// Litres spread over the farm, as mm of water depth
+export const irrigationDepth = (litres: number, hectares: number) => litres / (hectares * 10000);
+
+export type IrrigationStatus = 'under' | 'balanced' | 'over';
+
+export interface WaterBalance {
+  from: string;  // First watering, which opens the period
+  to: string;  // Last watering
+  days: number;  // Days in the period with weather
+  cropEt: number;  // mm
+  effectiveRain: number;  // mm
+  demand: number;  // mm the irrigation had to supply
+  applied: number;  // mm
+  difference: number;  // Applied minus demand, positive when over-irrigated
+  status: IrrigationStatus;
+}
+
+const irrigationRatio = (applied: number, demand: number) =>
+  demand > 0 ? applied / demand : applied > 0 ? Infinity : 1;
+
+// Each watering should replace what the crop used since the previous one, less the
+// effective rain, so the water the crop needed between the first and last watering is
+// compared with everything applied after the first. Within the tolerance, a share of
+// that need, the farm counts as well irrigated.
+export const waterBalance = (
+  farm: Farm,
+  weather: WeatherData[],
+  settings: CropSettings,
+  plantedOn: string | null,
+  tolerance: number
+): WaterBalance | null => {
+  const hectares = parseFloat(farm.size);
+  if (farm.latitude === undefined || !(hectares > 0)) return null;
+  const dates = farm.waterHistory.map(usage => usage.date.slice(0, 10)).sort();
+  if (dates.length < 2) return null;
+  const from = dates[0];
+  const to = dates[dates.length - 1];
+
+  const days = dailyWaterDemand(weather, farm.latitude, settings, plantedOn)
+    .filter(day => day.date > from && day.date <= to);
+  if (days.length === 0) return null;
+
+  const covered = new Set(days.map(day => day.date));
+  const applied = farm.waterHistory
+    .filter(usage => covered.has(usage.date.slice(0, 10)))
+    .reduce((sum, usage) => sum + irrigationDepth(usage.amount, hectares), 0);
+  const cropEt = days.reduce((sum, day) => sum + day.cropEt, 0);
+  const effectiveRain = days.reduce((sum, day) => sum + day.effectiveRain, 0);
+  const demand = Math.max(0, cropEt - effectiveRain);
+
+  const ratio = irrigationRatio(applied, demand);
+  const status: IrrigationStatus = ratio < 1 - tolerance ? 'under'
+    : ratio > 1 + tolerance ? 'over' : 'balanced';
+
+  return { from, to, days: days.length, cropEt, effectiveRain, demand, applied, difference: applied - demand, status };
+};
+
+// 100 within tolerance of the need, falling in proportion to any shortfall and by
+// half a point per percent of excess water
+export const waterBalanceScore = (balance: WaterBalance, tolerance: number) => {
+  const ratio = irrigationRatio(balance.applied, balance.demand);
+  if (ratio < 1 - tolerance) return 100 * ratio / (1 - tolerance);
+  if (ratio > 1 + tolerance) return Math.max(0, 100 - 50 * (ratio - 1 - tolerance));
+  return 100;
+};
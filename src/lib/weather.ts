@@ -0,0 +1,144 @@
+import type { WeatherData } from '@/types/farm';
+
+// Dates are plain YYYY-MM-DD strings, the same format the record forms store
+export interface WeatherProvider {
+  name: string;
+  forecast(latitude: number, longitude: number, days: number): Promise<WeatherData[]>;
+  history(latitude: number, longitude: number, from: string, to: string): Promise<WeatherData[]>;
+}
+
+// WMO weather interpretation codes as used by Open-Meteo
+export const getWeatherInfo = (code: number) => {
+  switch (true) {
+    case code <= 3: return { desc: 'Clear', icon: '☀️' };
+    case code <= 48: return { desc: 'Cloudy', icon: '☁️' };
+    case code <= 67: return { desc: 'Rain', icon: '🌧️' };
+    case code <= 77: return { desc: 'Snow', icon: '❄️' };
+    case code <= 82: return { desc: 'Rain', icon: '🌧️' };
+    case code <= 86: return { desc: 'Snow', icon: '❄️' };
+    case code <= 99: return { desc: 'Thunderstorm', icon: '⛈️' };
+    default: return { desc: 'Unknown', icon: '❓' };
+  }
+};
+
+type DailyValues = Omit<WeatherData, 'date' | 'weather' | 'icon'>;
+
+const toWeatherData = (date: string, code: number, values: DailyValues): WeatherData => {
+  const weatherInfo = getWeatherInfo(code);
+  return { date, ...values, weather: weatherInfo.desc, icon: weatherInfo.icon };
+};
+
+// Missing values come back as null, e.g. for days the archive has not processed yet
+interface OpenMeteoDaily {
+  time: string[];
+  weathercode: (number | null)[];
+  temperature_2m_max: (number | null)[];
+  temperature_2m_min: (number | null)[];
+  precipitation_sum: (number | null)[];
+  wind_speed_10m_max: (number | null)[];
+  relative_humidity_2m_mean: (number | null)[];
+}
+
+const fetchOpenMeteo = async (url: string): Promise<WeatherData[]> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Weather request failed with status ${response.status}`);
+  const { daily }: { daily: OpenMeteoDaily } = await response.json();
+  return daily.time
+    .map((date, index) => ({ date, index }))
+    .filter(({ index }) => daily.temperature_2m_max[index] !== null && daily.weathercode[index] !== null)
+    .map(({ date, index }) => toWeatherData(date, daily.weathercode[index]!, {
+      temp: daily.temperature_2m_max[index]!,
+      tempMin: daily.temperature_2m_min[index] ?? undefined,
+      precipitation: daily.precipitation_sum[index] ?? undefined,
+      windSpeed: daily.wind_speed_10m_max[index] ?? undefined,
+      humidity: daily.relative_humidity_2m_mean[index] ?? undefined,
+    }));
+};
+
+const OPEN_METEO_DAILY = 'daily=weathercode,temperature_2m_max,temperature_2m_min,precipitation_sum,wind_speed_10m_max,relative_humidity_2m_mean' +
+  '&temperature_unit=celsius&precipitation_unit=mm&wind_speed_unit=kmh&timezone=auto';
+
+export const openMeteoProvider: WeatherProvider = {
+  name: 'Open-Meteo',
+  forecast: (latitude, longitude, days) => fetchOpenMeteo(
+    `https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&${OPEN_METEO_DAILY}&forecast_days=${days}`
+  ),
+  history: (latitude, longitude, from, to) => fetchOpenMeteo(
+    `https://archive-api.open-meteo.com/v1/archive?latitude=${latitude}&longitude=${longitude}&${OPEN_METEO_DAILY}&start_date=${from}&end_date=${to}`
+  ),
+};
+
+// Small string hash so every location and day always gets the same values
+const hash = (value: string) => {
+  let result = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    result = Math.imul(result ^ value.charCodeAt(i), 16777619);
+  }
+  result = Math.imul(result ^ (result >>> 16), 2246822507);
+  result = Math.imul(result ^ (result >>> 13), 3266489909);
+  return ((result ^ (result >>> 16)) >>> 0) / 4294967296;
+};
+
+const toISODate = (date: Date) => date.toISOString().split('T')[0];
+
+// YYYY-MM-DD in the browser's time zone, matching what date inputs produce
+export const formatLocalDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Shifts a YYYY-MM-DD date by whole days
+export const addDays = (date: string, days: number) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return toISODate(next);
+};
+
+// Coordinates rounded to about a kilometre so nearby farms share weather
+export const locationKey = (latitude: number, longitude: number) =>
+  `${latitude.toFixed(2)},${longitude.toFixed(2)}`;
+
+const FIXTURE_CODES = [0, 1, 2, 3, 45, 61, 63, 80];
+const FIXTURE_RAIN_CODES = [61, 63, 80];
+
+const fixtureDay = (latitude: number, longitude: number, date: string): WeatherData => {
+  const dayOfYear = (Date.parse(date) - Date.parse(`${date.slice(0, 4)}-01-01`)) / 86400000;
+  const seasonal = Math.cos(((dayOfYear - 196) / 365) * 2 * Math.PI) * Math.sign(latitude || 1);
+  const key = `${locationKey(latitude, longitude)},${date}`;
+  const seed = hash(key);
+  const code = FIXTURE_CODES[Math.floor(seed * FIXTURE_CODES.length)];
+  const isRainy = FIXTURE_RAIN_CODES.includes(code);
+  const temp = Math.round(16 + seasonal * 12 - Math.abs(latitude) * 0.17 + (seed - 0.5) * 7);
+  return toWeatherData(date, code, {
+    temp,
+    tempMin: Math.round(temp - 6 - hash(`${key}:min`) * 6),
+    precipitation: isRainy ? Math.round((1 + hash(`${key}:rain`) * 24) * 10) / 10 : 0,
+    windSpeed: Math.round(5 + hash(`${key}:wind`) * 30),
+    humidity: Math.round((isRainy ? 75 : 45) + hash(`${key}:humidity`) * 20),
+  });
+};
+
+const fixtureRange = (latitude: number, longitude: number, from: string, days: number) =>
+  Array.from({ length: days }, (_, index) => {
+    const date = new Date(`${from}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + index);
+    return fixtureDay(latitude, longitude, toISODate(date));
+  });
+
+// Offline provider for development, demos and tests; values depend only on location and date
+export const fixtureProvider: WeatherProvider = {
+  name: 'Fixture',
+  forecast: async (latitude, longitude, days) =>
+    fixtureRange(latitude, longitude, formatLocalDate(new Date()), days),
+  history: async (latitude, longitude, from, to) => {
+    const days = Math.round((Date.parse(to) - Date.parse(from)) / 86400000) + 1;
+    return fixtureRange(latitude, longitude, from, Math.max(0, days));
+  },
+};
+
+const providers: Record<string, WeatherProvider> = {
+  'open-meteo': openMeteoProvider,
+  fixture: fixtureProvider,
+};
+
+// Selected at build time with VITE_WEATHER_PROVIDER, e.g. VITE_WEATHER_PROVIDER=fixture npm run dev
+export const weatherProvider: WeatherProvider =
+  providers[import.meta.env.VITE_WEATHER_PROVIDER ?? ''] ?? openMeteoProvider;
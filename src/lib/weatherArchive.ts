@@ -0,0 +1,67 @@
+import type { WeatherData } from '@/types/farm';
+import { WEATHER_STORE, openDatabase, requestToPromise, transactionDone } from './db';
+import { formatLocalDate, locationKey, weatherProvider, type WeatherProvider } from './weather';
+
+interface ArchivedWeather {
+  location: string;
+  date: string;
+  weather: WeatherData;
+}
+
+const eachDate = (from: string, to: string) => {
+  const dates: string[] = [];
+  for (let date = new Date(`${from}T00:00:00Z`); date.toISOString() <= `${to}T00:00:00.000Z`; date.setUTCDate(date.getUTCDate() + 1)) {
+    dates.push(date.toISOString().split('T')[0]);
+  }
+  return dates;
+};
+
+const yesterday = () => {
+  const date = new Date();
+  date.setDate(date.getDate() - 1);
+  return formatLocalDate(date);
+};
+
+export const weatherArchive = {
+  async list(location: string, from: string, to: string): Promise<WeatherData[]> {
+    const db = await openDatabase();
+    const transaction = db.transaction(WEATHER_STORE, 'readonly');
+    const days = await requestToPromise<ArchivedWeather[]>(
+      transaction.objectStore(WEATHER_STORE).getAll(IDBKeyRange.bound([location, from], [location, to]))
+    );
+    return days.map(day => day.weather);
+  },
+
+  async save(location: string, days: WeatherData[]): Promise<void> {
+    if (days.length === 0) return;
+    const db = await openDatabase();
+    const transaction = db.transaction(WEATHER_STORE, 'readwrite');
+    const store = transaction.objectStore(WEATHER_STORE);
+    days.forEach(day => store.put({ location, date: day.date, weather: day } satisfies ArchivedWeather));
+    await transactionDone(transaction);
+  },
+};
+
+// Fetches the observed days missing from the archive between from and to and
+// returns everything archived for that range. Days the provider has not
+// published yet stay missing and are requested again on the next backfill.
+export const backfillWeather = async (
+  latitude: number,
+  longitude: number,
+  from: string,
+  to: string,
+  provider: WeatherProvider = weatherProvider
+): Promise<WeatherData[]> => {
+  const location = locationKey(latitude, longitude);
+  const end = to < yesterday() ? to : yesterday();
+  if (from > end) return [];
+  const archived = await weatherArchive.list(location, from, end);
+  const archivedDates = new Set(archived.map(day => day.date));
+  const missing = eachDate(from, end).filter(date => !archivedDates.has(date));
+  if (missing.length === 0) return archived;
+
+  const fetched = await provider.history(latitude, longitude, missing[0], missing[missing.length - 1]);
+  const added = fetched.filter(day => !archivedDates.has(day.date));
+  await weatherArchive.save(location, added);
+  return [...archived, ...added].sort((a, b) => a.date.localeCompare(b.date));
+};
@@ -0,0 +1,62 @@
+import { createId } from './ids';
+
+export interface Workspace {
+  id: string;
+  name: string;
+}
+
+const WORKSPACES_KEY = 'workspaces';
+const ACTIVE_WORKSPACE_KEY = 'activeWorkspace';
+
+// The default workspace keeps the original database so existing data shows up there
+export const DEFAULT_WORKSPACE: Workspace = { id: 'default', name: 'My Farm' };
+
+export const databaseNameFor = (workspaceId: string) =>
+  workspaceId === DEFAULT_WORKSPACE.id ? 'ecosprout' : `ecosprout-${workspaceId}`;
+
+const saveWorkspaces = (workspaces: Workspace[]) => {
+  localStorage.setItem(WORKSPACES_KEY, JSON.stringify(workspaces));
+};
+
+export const listWorkspaces = (): Workspace[] => {
+  try {
+    const saved = localStorage.getItem(WORKSPACES_KEY);
+    const workspaces: Workspace[] = saved ? JSON.parse(saved) : [];
+    return workspaces.length > 0 ? workspaces : [DEFAULT_WORKSPACE];
+  } catch (error) {
+    console.error('Error reading workspaces:', error);
+    return [DEFAULT_WORKSPACE];
+  }
+};
+
+// Held per tab so switching in one tab never redirects another tab's writes;
+// localStorage only remembers the last choice for newly opened tabs
+let activeWorkspaceId: string | null = null;
+
+export const getActiveWorkspaceId = () => {
+  const activeId = activeWorkspaceId ?? localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+  const workspaces = listWorkspaces();
+  activeWorkspaceId = workspaces.some(workspace => workspace.id === activeId) ? activeId! : workspaces[0].id;
+  return activeWorkspaceId;
+};
+
+export const setActiveWorkspaceId = (id: string) => {
+  activeWorkspaceId = id;
+  localStorage.setItem(ACTIVE_WORKSPACE_KEY, id);
+};
+
+export const createWorkspace = (name: string): Workspace => {
+  const workspace = { id: createId(), name: name.trim() };
+  saveWorkspaces([...listWorkspaces(), workspace]);
+  return workspace;
+};
+
+export const renameWorkspace = (id: string, name: string) => {
+  saveWorkspaces(listWorkspaces().map(workspace => workspace.id === id ? { ...workspace, name: name.trim() } : workspace));
+};
+
+export const removeWorkspace = (id: string) => {
+  const remaining = listWorkspaces().filter(workspace => workspace.id !== id);
+  if (remaining.length === 0) throw new Error('Cannot delete the only workspace');
+  saveWorkspaces(remaining);
+};
@@ -0,0 +1,138 @@
+export interface WaterUsage {
+  id: string;
+  amount: number;
+  date: string;
+  efficiency?: number;  // Add efficiency score for each watering
+}
+
+export interface FertilizerUsage {
+  id: string;
+  type: string;
+  amount: number;
+  date: string;
+}
+
+export interface HarvestRecord {
+  id: string;
+  amount: number;  // In unit
+  unit: string;  // Harvest unit of the farm's crop when recorded, e.g. 'bu' or 'crate'
+  weight: number;  // kg
+  date: string;
+}
+
+export interface RotationEntry {
+  id: string;
+  crop: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface PesticideApplication {
+  id: string;
+  type: string;
+  amount: number;  // kg of product
+  date: string;
+  toxicity: number;  // Multiplier of the amount, see TOXICITY_CLASSES
+}
+
+export interface Farm {
+  id: string;
+  name: string;
+  size: string;
+  crop: string;
+  latitude?: number;
+  longitude?: number;
+  waterHistory: WaterUsage[];
+  fertilizerHistory: FertilizerUsage[];
+  harvestHistory: HarvestRecord[];
+  soilType?: string;
+  slopeRatio?: number;
+  pesticides?: PesticideApplication[];
+  rotationHistory?: RotationEntry[];
+  organicMatter?: number;
+  soilPH?: number;
+  biodiversityScore?: number;
+}
+
+export type WeatherHazard = 'frost' | 'heat' | 'heavyRain';
+
+// Ratio of crop to reference evapotranspiration in the initial, mid-season and late stages
+export interface CropCoefficients {
+  initial: number;
+  mid: number;
+  end: number;
+}
+
+// Crop settings that override the built-in catalogue in lib/crops
+export interface Crop {
+  id: string;
+  name: string;
+  harvestUnit: string;
+  kgPerUnit: number;
+  sensitivities?: WeatherHazard[];  // Forecast hazards that raise alerts for farms growing it
+  baseTemp?: number;  // °C below which the crop does not develop
+  maturityGdd?: number;  // Growing degree days from planting to maturity
+  rootDepth?: number;  // m, when fully grown
+  kc?: CropCoefficients;
+}
+
+export interface WeatherData {
+  date: string;  // YYYY-MM-DD
+  temp: number;  // Daily maximum, °C
+  tempMin?: number;  // °C
+  weather: string;
+  icon: string;
+  precipitation?: number;  // mm of rain
+  windSpeed?: number;  // Daily maximum, km/h
+  humidity?: number;  // Daily mean relative humidity, %
+}
+
+export interface Task {
+  id: string;
+  title: string;
+  dueDate: string;
+  priority: string;
+  completed: boolean;
+}
+
+export interface Issue {
+  id: string;
+  type: string;
+  description: string;
+  severity: string;
+  status: string;
+  dateReported: Date;
+}
+
+export interface CropPlanEvent {
+  id: string;
+  title: string;
+  start: Date;
+  end: Date;
+  farmId: string;
+  type: 'planting' | 'fertilizing' | 'harvesting' | 'other';
+  notes?: string;
+}
+
+// Only include metrics we have data for; null where no farm has any. The overall
+// score is null too when every metric with data is weighted 0
+export interface SustainabilityMetrics {
+  overallScore: number | null;
+  waterEfficiency: number | null;
+  organicScore: number | null;
+  harvestEfficiency: number | null;
+  soilQualityScore: number | null;
+  rotationScore: number | null;
+  pesticideScore: number | null;
+}
+
+export interface ExportData {
+  version: string;
+  exportDate: string;
+  workspace?: string;  // Name of the workspace the data was exported from
+  farms: Farm[];
+  tasks: Task[];
+  issues: Issue[];
+  cropPlanEvents: CropPlanEvent[];
+  crops: Crop[];
+}
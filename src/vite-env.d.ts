@@ -1,2 +1,6 @@
 /// <reference types="vite/client" />
-/// <reference types="vite-plugin-pages/client-react" />
\ No newline at end of file
+/// <reference types="vite-plugin-pages/client-react" />
+
+interface ImportMetaEnv {
+  readonly VITE_WEATHER_PROVIDER?: 'open-meteo' | 'fixture';
+}